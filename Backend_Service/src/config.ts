@@ -0,0 +1,55 @@
+/**
+ * Service settings, read from the environment
+ */
+export interface ServiceConfig {
+  port: number;
+  host: string;
+  /** Base of the short links handed out, e.g. https://sho.rt */
+  publicBaseUrl: string;
+  /** JSON file holding every short URL */
+  dataFile: string;
+  /** Validity used when a request does not give one, in minutes */
+  defaultValidityMinutes: number;
+  /** Value of Access-Control-Allow-Origin for the frontend */
+  corsOrigin: string;
+  /** Addresses of reverse proxies whose X-Forwarded-For header is believed; empty means none */
+  trustedProxies: string[];
+  logging: {
+    apiUrl: string;
+    /** Without a token, entries only go to stdout */
+    accessToken?: string;
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Build the configuration from environment variables, falling back to local development defaults
+ */
+export function loadConfig(): ServiceConfig {
+  const port = readNumber('PORT', 5000);
+
+  return {
+    port,
+    host: process.env.HOST || '127.0.0.1',
+    publicBaseUrl: (process.env.PUBLIC_BASE_URL || `http://localhost:${port}`).replace(/\/+$/, ''),
+    dataFile: process.env.DATA_FILE || 'data/short-urls.json',
+    defaultValidityMinutes: readNumber('DEFAULT_VALIDITY_MINUTES', 30),
+    corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
+    trustedProxies: (process.env.TRUSTED_PROXIES || '').split(',').map(address => address.trim()).filter(Boolean),
+    logging: {
+      apiUrl: process.env.LOGGING_API_URL || 'http://20.244.56.144/evaluation-service',
+      accessToken: process.env.LOGGING_ACCESS_TOKEN || undefined
+    }
+  };
+}
@@ -0,0 +1,176 @@
+import type { ServerResponse } from 'http';
+import { Logger } from '@logging-middleware/core';
+import type { LoggedRequest } from '@logging-middleware/core/node';
+import { ApiResponse, ClickData, CreateShortUrlRequest, CreateShortUrlResponse, ErrorResponse, ShortUrl } from '../types';
+import { ExpiredError, HttpError, NotFoundError } from '../errors';
+import { ClickInfo, DEFAULT_REDIRECT_TYPE, ShortUrlService, ShortUrlUpdate } from '../services/shortUrlService';
+import { RouteHandler, Router, clientAddress, readJsonBody, sendHtml, sendJson } from '../http';
+import { renderStatusPage } from '../pages';
+
+/**
+ * Temporary redirects are never cached so every visit is counted. A 301 may be cached until
+ * the link expires, so browsers stop asking (and counting) after the first visit.
+ */
+function redirectCacheControl(status: number, shortUrl: ShortUrl): string {
+  if (status !== 301) {
+    return 'no-store';
+  }
+  const secondsLeft = Math.max(0, Math.floor((shortUrl.expiresAt.getTime() - Date.now()) / 1000));
+  return `public, max-age=${secondsLeft}`;
+}
+
+/**
+ * Clicks as the API shows them: the visitor's address and user agent stay on the server
+ */
+function toPublicShortUrl(shortUrl: ShortUrl): ShortUrl {
+  return {
+    ...shortUrl,
+    clicks: shortUrl.clicks.map(({ ipAddress, userAgent, ...click }): ClickData => click)
+  };
+}
+
+/**
+ * HTTP layer for short URLs: parses requests, calls the service and wraps results in `ApiResponse`
+ */
+export class ShortUrlController {
+  private service: ShortUrlService;
+  private logger: Logger;
+  private trustedProxies: string[];
+
+  constructor(service: ShortUrlService, logger: Logger, trustedProxies: string[] = []) {
+    this.service = service;
+    this.logger = logger;
+    this.trustedProxies = trustedProxies;
+  }
+
+  /**
+   * Register the REST endpoints and the redirect route
+   */
+  register(router: Router): void {
+    router
+      .add('POST', '/api/urls', this.handle(this.create))
+      .add('GET', '/api/urls', this.handle(this.list))
+      .add('GET', '/api/urls/:shortCode', this.handle(this.get))
+      .add('PATCH', '/api/urls/:shortCode', this.handle(this.update))
+      .add('POST', '/api/urls/:shortCode/clicks', this.handle(this.recordClick))
+      .add('DELETE', '/api/urls/:shortCode', this.handle(this.delete))
+      .add('GET', '/:shortCode', this.handle(this.redirect));
+  }
+
+  private create: RouteHandler = async (req, res) => {
+    const body = (await readJsonBody(req)) as CreateShortUrlRequest;
+    const shortUrl = await this.service.create(body ?? {});
+    void req.log.info('controller', `Created ${shortUrl.shortCode} for ${shortUrl.originalUrl}`, {
+      data: { shortCode: shortUrl.shortCode, originalUrl: shortUrl.originalUrl }
+    });
+    this.send<CreateShortUrlResponse>(res, 201, {
+      shortUrl: toPublicShortUrl(shortUrl),
+      message: `Short URL created: ${shortUrl.shortUrl}`
+    }, 'Short URL created successfully');
+  };
+
+  private list: RouteHandler = async (req, res) => {
+    const shortUrls = await this.service.list();
+    this.send<ShortUrl[]>(res, 200, shortUrls.map(toPublicShortUrl), `Found ${shortUrls.length} short URLs`);
+  };
+
+  private get: RouteHandler = async (req, res, params) => {
+    const shortUrl = await this.service.get(params.shortCode);
+    this.send<ShortUrl>(res, 200, toPublicShortUrl(shortUrl), 'Short URL found');
+  };
+
+  private update: RouteHandler = async (req, res, params) => {
+    const body = (await readJsonBody(req)) as ShortUrlUpdate;
+    const shortUrl = await this.service.update(params.shortCode, body ?? {});
+    this.send<ShortUrl>(res, 200, toPublicShortUrl(shortUrl), `Short URL ${params.shortCode} updated`);
+  };
+
+  /**
+   * Record a visit the client handled itself (the SPA's redirect page). The address and user agent
+   * come from the connection and headers, never the body, so a client cannot report them for someone else.
+   */
+  private recordClick: RouteHandler = async (req, res, params) => {
+    const body = ((await readJsonBody(req)) ?? {}) as Partial<ClickInfo>;
+    const shortUrl = await this.service.resolve(params.shortCode, {
+      source: typeof body.source === 'string' ? body.source : undefined,
+      location: typeof body.location === 'string' ? body.location : undefined,
+      referrer: req.headers.referer,
+      userAgent: req.headers['user-agent'],
+      ipAddress: clientAddress(req, this.trustedProxies)
+    });
+    this.send<ShortUrl>(res, 200, toPublicShortUrl(shortUrl), `Click recorded for ${params.shortCode}`);
+  };
+
+  private delete: RouteHandler = async (req, res, params) => {
+    await this.service.delete(params.shortCode);
+    void req.log.info('controller', `Deleted ${params.shortCode}`, { data: { shortCode: params.shortCode } });
+    this.send<null>(res, 200, null, `Short URL ${params.shortCode} deleted`);
+  };
+
+  /**
+   * Send visitors on with the link's redirect status, recording the click. Unknown and expired
+   * codes get an HTML page, since this route is opened in a browser rather than called by the app.
+   */
+  private redirect: RouteHandler = async (req, res, params) => {
+    let shortUrl: ShortUrl;
+    try {
+      shortUrl = await this.service.resolve(params.shortCode, {
+        referrer: req.headers.referer,
+        userAgent: req.headers['user-agent'],
+        ipAddress: clientAddress(req, this.trustedProxies)
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        const message = `There is no short link "${params.shortCode}". Check the address for typos.`;
+        sendHtml(res, 404, renderStatusPage(404, 'Link not found', message));
+        return;
+      }
+      if (error instanceof ExpiredError) {
+        const message = `The short link "${params.shortCode}" has expired and no longer redirects.`;
+        sendHtml(res, 410, renderStatusPage(410, 'Link expired', message));
+        return;
+      }
+      throw error;
+    }
+
+    const status = shortUrl.redirectType ?? DEFAULT_REDIRECT_TYPE;
+    void req.log.info('controller', `Redirecting ${shortUrl.shortCode} with ${status}`, {
+      data: { shortCode: shortUrl.shortCode, originalUrl: shortUrl.originalUrl, status, clickCount: shortUrl.clickCount }
+    });
+    res.writeHead(status, { Location: shortUrl.originalUrl, 'Cache-Control': redirectCacheControl(status, shortUrl) });
+    res.end();
+  };
+
+  private send<T>(res: ServerResponse, status: number, data: T, message: string): void {
+    const body: ApiResponse<T> = { success: true, data, message };
+    sendJson(res, status, body);
+  }
+
+  /**
+   * Turn errors into `ErrorResponse` bodies: HttpErrors keep their status, anything else is a 500
+   */
+  private handle(handler: RouteHandler): RouteHandler {
+    return async (req: LoggedRequest, res, params) => {
+      try {
+        await handler(req, res, params);
+      } catch (error) {
+        if (res.headersSent) {
+          res.destroy(error as Error);
+          return;
+        }
+
+        if (error instanceof HttpError) {
+          const body: ErrorResponse = { success: false, error: error.code, message: error.message };
+          sendJson(res, error.status, body);
+          return;
+        }
+
+        void (req.log ?? this.logger).error('controller', `Unhandled error: ${(error as Error).message}`, {
+          error: error as Error
+        });
+        const body: ErrorResponse = { success: false, error: 'internal_error', message: 'Internal server error' };
+        sendJson(res, 500, body);
+      }
+    };
+  }
+}
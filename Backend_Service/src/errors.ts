@@ -0,0 +1,58 @@
+/**
+ * Error that maps to an HTTP status and an `ErrorResponse` body.
+ * `code` becomes the response's `error` field so clients can branch on it.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Request body or parameters failed validation (400)
+ */
+export class ValidationError extends HttpError {
+  readonly details: string[];
+
+  constructor(details: string[]) {
+    super(400, 'validation_failed', details.join(', '));
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * No short URL with the given code (404)
+ */
+export class NotFoundError extends HttpError {
+  constructor(shortCode: string) {
+    super(404, 'not_found', `Short URL "${shortCode}" not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * A custom shortcode is already in use (409)
+ */
+export class ShortCodeTakenError extends HttpError {
+  constructor(shortCode: string) {
+    super(409, 'shortcode_taken', `Shortcode "${shortCode}" is already in use`);
+    this.name = 'ShortCodeTakenError';
+  }
+}
+
+/**
+ * The short URL exists but has expired (410)
+ */
+export class ExpiredError extends HttpError {
+  constructor(shortCode: string) {
+    super(410, 'expired', `Short URL "${shortCode}" has expired`);
+    this.name = 'ExpiredError';
+  }
+}
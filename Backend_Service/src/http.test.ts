@@ -0,0 +1,41 @@
+import type { IncomingMessage } from 'http';
+import { Router, clientAddress } from './http';
+
+const request = (remoteAddress: string, forwardedFor?: string) =>
+  ({ socket: { remoteAddress }, headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} }) as unknown as IncomingMessage;
+
+describe('clientAddress', () => {
+  it('ignores X-Forwarded-For from untrusted connections', () => {
+    expect(clientAddress(request('203.0.113.9', '1.2.3.4'))).toBe('203.0.113.9');
+    expect(clientAddress(request('203.0.113.9', '1.2.3.4'), ['10.0.0.1'])).toBe('203.0.113.9');
+  });
+
+  it('uses the nearest hop that is not a trusted proxy', () => {
+    const trusted = ['10.0.0.1', '10.0.0.2'];
+
+    expect(clientAddress(request('::ffff:10.0.0.1', 'spoofed, 1.2.3.4, 10.0.0.2'), trusted)).toBe('1.2.3.4');
+    expect(clientAddress(request('10.0.0.1'), trusted)).toBe('10.0.0.1');
+  });
+});
+
+describe('Router', () => {
+  const handler = async () => undefined;
+  const router = new Router()
+    .add('GET', '/api/shorturls/:shortCode', handler)
+    .add('DELETE', '/api/shorturls/:shortCode', handler)
+    .add('GET', '/:shortCode', handler);
+
+  it('matches routes in order and extracts parameters', () => {
+    expect(router.match('GET', '/api/shorturls/abc')).toEqual({
+      handler,
+      params: { shortCode: 'abc' },
+      pattern: '/api/shorturls/:shortCode'
+    });
+    expect(router.match('GET', '/abc')).toMatchObject({ pattern: '/:shortCode' });
+  });
+
+  it('reports the allowed methods when only the method is wrong', () => {
+    expect(router.match('POST', '/api/shorturls/abc')).toEqual({ allowedMethods: ['GET', 'DELETE'] });
+    expect(router.match('GET', '/api/shorturls')).toBeUndefined();
+  });
+});
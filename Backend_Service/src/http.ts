@@ -0,0 +1,182 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { LoggedRequest } from '@logging-middleware/core/node';
+import { HttpError } from './errors';
+
+/**
+ * Handles a matched route; `params` holds the values of `:name` segments
+ */
+export type RouteHandler = (req: LoggedRequest, res: ServerResponse, params: Record<string, string>) => Promise<void>;
+
+/**
+ * Result of looking up a request in the router
+ */
+export type RouteMatch =
+  | { handler: RouteHandler; params: Record<string, string>; pattern: string }
+  | { allowedMethods: string[] }
+  | undefined;
+
+interface Route {
+  method: string;
+  pattern: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal method + path router for `http.createServer`. Routes are tried in the order
+ * they were added, so register specific paths before catch-alls like `/:shortCode`.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  add(method: string, pattern: string, handler: RouteHandler): this {
+    this.routes.push({ method, pattern, segments: splitPath(pattern), handler });
+    return this;
+  }
+
+  /**
+   * Find the handler for a request, or the methods the path supports when only the method is wrong
+   */
+  match(method: string, path: string): RouteMatch {
+    const segments = splitPath(path);
+    const allowedMethods: string[] = [];
+
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, segments);
+      if (!params) {
+        continue;
+      }
+      if (route.method === method) {
+        return { handler: route.handler, params, pattern: route.pattern };
+      }
+      allowedMethods.push(route.method);
+    }
+    return allowedMethods.length > 0 ? { allowedMethods } : undefined;
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchSegments(pattern: string[], actual: string[]): Record<string, string> | null {
+  if (pattern.length !== actual.length) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      try {
+        params[pattern[i].slice(1)] = decodeURIComponent(actual[i]);
+      } catch {
+        return null;
+      }
+    } else if (pattern[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Read and parse a JSON request body, rejecting bodies over `limit` bytes. The rest of an
+ * oversized body is read and discarded rather than buffered, so the connection stays
+ * usable and the caller's 413 response reaches the client.
+ */
+export function readJsonBody(req: IncomingMessage, limit: number = 64 * 1024): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, 'payload_too_large', `Request body exceeds ${limit} bytes`);
+    if (Number(req.headers['content-length'] ?? 0) > limit) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let rejected = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) {
+        return;
+      }
+      size += chunk.length;
+      if (size > limit) {
+        rejected = true;
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (rejected) {
+        return;
+      }
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, 'invalid_json', 'Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+/**
+ * Send an HTML page
+ */
+export function sendHtml(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Content-Length': Buffer.byteLength(html),
+    'Cache-Control': 'no-store'
+  });
+  res.end(html);
+}
+
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address;
+}
+
+/**
+ * Client address. X-Forwarded-For is only read when the connection comes from one of
+ * `trustedProxies`, and then the nearest hop that is not a trusted proxy is used, since
+ * anything further left was written by the client.
+ */
+export function clientAddress(req: IncomingMessage, trustedProxies: string[] = []): string | undefined {
+  const remote = req.socket.remoteAddress;
+  const trusted = (address: string) => trustedProxies.indexOf(normalizeAddress(address)) !== -1;
+  if (!remote || !trusted(remote)) {
+    return remote;
+  }
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted(hops[i])) {
+      return hops[i];
+    }
+  }
+  return hops[0] ?? remote;
+}
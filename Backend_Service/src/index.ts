@@ -0,0 +1,18 @@
+import { createErrorReporter } from '@logging-middleware/core';
+import { installProcessErrorHandlers, installProcessFlush } from '@logging-middleware/core/node';
+import { loadConfig } from './config';
+import { createServiceLogger } from './logger';
+import { createServer } from './server';
+
+const config = loadConfig();
+const logger = createServiceLogger(config.logging);
+
+installProcessErrorHandlers(createErrorReporter({ logger }), { beforeExit: () => logger.flush() });
+installProcessFlush(logger, { signals: ['SIGTERM', 'SIGINT'] });
+
+const server = createServer(config, logger);
+server.listen(config.port, config.host, () => {
+  void logger.info('config', `URL shortener service listening on http://${config.host}:${config.port}`, {
+    data: { port: config.port, dataFile: config.dataFile, publicBaseUrl: config.publicBaseUrl }
+  });
+});
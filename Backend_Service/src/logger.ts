@@ -0,0 +1,20 @@
+import { ConsoleTransport, createBackendLogger, createLogger, Logger } from '@logging-middleware/core';
+import { ServiceConfig } from './config';
+
+/**
+ * Create the service logger: the log API plus JSON lines on stdout, or stdout alone
+ * when no access token is configured (local development)
+ */
+export function createServiceLogger(config: ServiceConfig['logging']): Logger {
+  if (!config.accessToken) {
+    return createLogger({
+      defaultStack: 'backend',
+      minLevel: 'info',
+      // Same default redaction as the preset, so stdout never carries tokens or passwords
+      redaction: {},
+      transports: [new ConsoleTransport({ formatter: 'json', levelMethods: false })]
+    });
+  }
+
+  return createBackendLogger(config.apiUrl, config.accessToken, { enableConsoleLog: true });
+}
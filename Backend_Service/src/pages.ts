@@ -0,0 +1,46 @@
+/**
+ * Minimal standalone HTML pages for visitors of the redirect route, who expect a page rather than JSON
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Render an error page such as "Link not found" or "Link expired"; all text is escaped
+ */
+export function renderStatusPage(status: number, title: string, message: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${status} ${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+    font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; background: #f5f5f5; color: #333; }
+  main { max-width: 28rem; padding: 2rem; background: #fff; border-radius: 8px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.12); text-align: center; }
+  h1 { margin: 0 0 0.5rem; font-size: 1.5rem; }
+  p { margin: 0; color: #666; }
+  .status { font-size: 3rem; font-weight: 700; color: #1976d2; }
+</style>
+</head>
+<body>
+<main>
+  <div class="status">${status}</div>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+</main>
+</body>
+</html>
+`;
+}
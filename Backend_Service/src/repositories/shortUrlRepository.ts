@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Logger } from '@logging-middleware/core';
+import { ClickData, ShortUrl, StorageData } from '../types';
+import { ShortCodeTakenError } from '../errors';
+
+/**
+ * Persistence for short URLs, keyed by short code
+ */
+export interface ShortUrlRepository {
+  list(): Promise<ShortUrl[]>;
+  findByCode(shortCode: string): Promise<ShortUrl | undefined>;
+  /** Store a new short URL; throws ShortCodeTakenError when the code is already in use */
+  insert(shortUrl: ShortUrl): Promise<ShortUrl>;
+  /** Apply a change to a stored short URL, resolving undefined when the code is unknown */
+  update(shortCode: string, change: (shortUrl: ShortUrl) => ShortUrl): Promise<ShortUrl | undefined>;
+  /** Remove a short URL, resolving false when there was none */
+  delete(shortCode: string): Promise<boolean>;
+  /** Append a click and bump the count, resolving undefined when the code is unknown */
+  addClick(shortCode: string, click: ClickData): Promise<ShortUrl | undefined>;
+}
+
+const STORAGE_VERSION = '1';
+
+/**
+ * Revive the Date fields JSON.parse leaves as strings
+ */
+function reviveShortUrl(raw: ShortUrl): ShortUrl {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    expiresAt: new Date(raw.expiresAt),
+    clicks: raw.clicks.map(click => ({ ...click, timestamp: new Date(click.timestamp) }))
+  };
+}
+
+/**
+ * Keeps every short URL in one JSON file, loaded once and rewritten after each change.
+ * Changes are applied one at a time, so the uniqueness check in `insert` cannot race another insert.
+ */
+export class FileShortUrlRepository implements ShortUrlRepository {
+  private filePath: string;
+  private logger: Logger;
+  private urls: Map<string, ShortUrl> | null = null;
+  private loading: Promise<Map<string, ShortUrl>> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  async list(): Promise<ShortUrl[]> {
+    const urls = await this.load();
+    return [...urls.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findByCode(shortCode: string): Promise<ShortUrl | undefined> {
+    const urls = await this.load();
+    return urls.get(shortCode);
+  }
+
+  insert(shortUrl: ShortUrl): Promise<ShortUrl> {
+    return this.mutate(urls => {
+      if (urls.has(shortUrl.shortCode)) {
+        throw new ShortCodeTakenError(shortUrl.shortCode);
+      }
+      urls.set(shortUrl.shortCode, shortUrl);
+      return shortUrl;
+    });
+  }
+
+  update(shortCode: string, change: (shortUrl: ShortUrl) => ShortUrl): Promise<ShortUrl | undefined> {
+    return this.mutate(urls => {
+      const existing = urls.get(shortCode);
+      if (!existing) {
+        return undefined;
+      }
+      const updated = { ...change(existing), shortCode };
+      urls.set(shortCode, updated);
+      return updated;
+    });
+  }
+
+  delete(shortCode: string): Promise<boolean> {
+    return this.mutate(urls => urls.delete(shortCode));
+  }
+
+  addClick(shortCode: string, click: ClickData): Promise<ShortUrl | undefined> {
+    return this.update(shortCode, existing => ({
+      ...existing,
+      clickCount: existing.clickCount + 1,
+      clicks: [...existing.clicks, click]
+    }));
+  }
+
+  /**
+   * Run a change after every earlier one has been written, then persist the result.
+   * A change that throws leaves the store untouched.
+   */
+  private mutate<T>(change: (urls: Map<string, ShortUrl>) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const urls = await this.load();
+      const draft = new Map(urls);
+      const result = change(draft);
+      if (draft.size !== urls.size || [...draft].some(([code, url]) => urls.get(code) !== url)) {
+        await this.save(draft);
+        this.urls = draft;
+      }
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private load(): Promise<Map<string, ShortUrl>> {
+    if (this.urls) {
+      return Promise.resolve(this.urls);
+    }
+    if (!this.loading) {
+      this.loading = this.readFile().then(urls => {
+        this.urls = urls;
+        return urls;
+      });
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, ShortUrl>> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        void this.logger.info('repository', `No data file at ${this.filePath}; starting empty`);
+        return new Map();
+      }
+      void this.logger.error('repository', `Failed to read ${this.filePath}`, { error: error as Error });
+      throw error;
+    }
+
+    const data = JSON.parse(text) as StorageData;
+    const urls = new Map(data.shortUrls.map(raw => [raw.shortCode, reviveShortUrl(raw)] as const));
+    void this.logger.info('repository', `Loaded ${urls.size} short URLs`, {
+      data: { file: this.filePath, version: data.version }
+    });
+    return urls;
+  }
+
+  private async save(urls: Map<string, ShortUrl>): Promise<void> {
+    const data: StorageData = {
+      shortUrls: [...urls.values()],
+      lastUpdated: new Date(),
+      version: STORAGE_VERSION
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a truncated file
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      void this.logger.error('repository', `Failed to write ${this.filePath}`, { error: error as Error });
+      throw error;
+    }
+    void this.logger.debug('repository', `Saved ${urls.size} short URLs`, { data: { file: this.filePath } });
+  }
+}
@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestLogger } from '@logging-middleware/core/testing';
+import { ServiceConfig } from './config';
+import { createServer } from './server';
+import { ApiResponse, ShortUrl, StorageData } from './types';
+
+const seeded = (shortCode: string, expiresAt: Date, redirectType?: ShortUrl['redirectType']): ShortUrl => ({
+  id: shortCode,
+  originalUrl: `https://example.com/${shortCode}`,
+  shortCode,
+  shortUrl: `http://sho.rt/${shortCode}`,
+  validityPeriod: 30,
+  redirectType,
+  createdAt: new Date(expiresAt.getTime() - 30 * 60000),
+  expiresAt,
+  clickCount: 0,
+  clicks: []
+});
+
+describe('redirect server', () => {
+  let directory: string;
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'redirects-'));
+    const dataFile = path.join(directory, 'data.json');
+    const later = new Date(Date.now() + 10 * 60000);
+    const data: StorageData = {
+      shortUrls: [seeded('temp', later), seeded('perm', later, 301), seeded('gone', new Date(Date.now() - 60000))],
+      lastUpdated: new Date(),
+      version: '1'
+    };
+    await fs.writeFile(dataFile, JSON.stringify(data));
+
+    const config: ServiceConfig = {
+      port: 0,
+      host: '127.0.0.1',
+      publicBaseUrl: 'http://sho.rt',
+      dataFile,
+      defaultValidityMinutes: 30,
+      corsOrigin: '*',
+      trustedProxies: [],
+      logging: { apiUrl: 'http://127.0.0.1:1' }
+    };
+    server = createServer(config, createTestLogger({ defaultStack: 'backend' }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const clickCount = async (shortCode: string) => {
+    const response = await fetch(`${url}/api/urls/${shortCode}`);
+    return ((await response.json()) as ApiResponse<ShortUrl>).data.clickCount;
+  };
+
+  it('redirects with a 302 that is never cached and counts the visit', async () => {
+    const response = await fetch(`${url}/temp`, { redirect: 'manual', headers: { 'User-Agent': 'test-agent' } });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://example.com/temp');
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await clickCount('temp')).toBe(1);
+  });
+
+  it('lets browsers cache a 301 until the link expires', async () => {
+    const response = await fetch(`${url}/perm`, { redirect: 'manual' });
+
+    expect(response.status).toBe(301);
+    const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '')?.[1]);
+    expect(maxAge).toBeGreaterThan(9 * 60);
+    expect(maxAge).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it('answers unknown and expired codes with an HTML page', async () => {
+    const missing = await fetch(`${url}/nope`, { redirect: 'manual' });
+    const expired = await fetch(`${url}/gone`, { redirect: 'manual' });
+
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(await missing.text()).toContain('Link not found');
+    expect(expired.status).toBe(410);
+    expect(await expired.text()).toContain('Link expired');
+    expect(await clickCount('gone')).toBe(0);
+  });
+
+  it('refuses a custom shortcode that a fixed route would shadow', async () => {
+    const response = await fetch(`${url}/api/urls`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ originalUrl: 'https://example.com', customShortcode: 'health' })
+    });
+
+    expect(response.status).toBe(400);
+    expect((await fetch(`${url}/health`)).headers.get('content-type')).toContain('application/json');
+  });
+
+  it('answers oversized bodies with a 413 error response', async () => {
+    const response = await fetch(`${url}/api/urls`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ originalUrl: `https://example.com/${'x'.repeat(70 * 1024)}` })
+    });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ success: false, error: 'payload_too_large' });
+  });
+
+  it('answers 413 to an oversized body sent without a length', async () => {
+    const { status, body } = await new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      const request = http.request(`${url}/api/urls`, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, response => {
+        let text = '';
+        response.on('data', chunk => (text += chunk));
+        response.on('end', () => resolve({ status: response.statusCode, body: text }));
+      });
+      request.on('error', reject);
+      for (let i = 0; i < 10; i++) {
+        request.write('x'.repeat(10 * 1024));
+      }
+      request.end();
+    });
+
+    expect(status).toBe(413);
+    expect(JSON.parse(body)).toMatchObject({ error: 'payload_too_large' });
+  });
+
+  it('leaves API routes to the API', async () => {
+    const response = await fetch(`${url}/api/urls`);
+
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as ApiResponse<ShortUrl[]>).data).toHaveLength(3);
+  });
+});
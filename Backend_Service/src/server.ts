@@ -0,0 +1,66 @@
+import * as http from 'http';
+import { Logger } from '@logging-middleware/core';
+import { withRequestLogging } from '@logging-middleware/core/node';
+import { ServiceConfig } from './config';
+import { ErrorResponse } from './types';
+import { FileShortUrlRepository } from './repositories/shortUrlRepository';
+import { ShortUrlService } from './services/shortUrlService';
+import { ShortUrlController } from './controllers/shortUrlController';
+import { Router, sendJson } from './http';
+
+/**
+ * Wire repository, service and controller together and return the HTTP server (not yet listening)
+ */
+export function createServer(config: ServiceConfig, logger: Logger): http.Server {
+  const repository = new FileShortUrlRepository(config.dataFile, logger);
+  const service = new ShortUrlService({
+    repository,
+    logger,
+    publicBaseUrl: config.publicBaseUrl,
+    defaultValidityMinutes: config.defaultValidityMinutes
+  });
+  const controller = new ShortUrlController(service, logger, config.trustedProxies);
+
+  const router = new Router();
+  router.add('GET', '/health', async (req, res) => sendJson(res, 200, { status: 'ok' }));
+  controller.register(router);
+
+  const routeOf = (req: http.IncomingMessage): string => {
+    const path = (req.url ?? '/').split('?')[0];
+    const match = router.match(req.method ?? 'GET', path);
+    return match && 'pattern' in match ? match.pattern : path;
+  };
+
+  return http.createServer(withRequestLogging((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', config.corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Request-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const path = (req.url ?? '/').split('?')[0];
+    const match = router.match(req.method ?? 'GET', path);
+    if (!match) {
+      const body: ErrorResponse = { success: false, error: 'not_found', message: `No route for ${req.method} ${path}` };
+      sendJson(res, 404, body);
+      return;
+    }
+    if ('allowedMethods' in match) {
+      res.setHeader('Allow', match.allowedMethods.join(', '));
+      const body: ErrorResponse = { success: false, error: 'method_not_allowed', message: `${req.method} is not allowed on ${path}` };
+      sendJson(res, 405, body);
+      return;
+    }
+
+    void match.handler(req, res, match.params);
+  }, {
+    logger,
+    getRoute: routeOf,
+    ignore: req => req.url === '/health' || req.method === 'OPTIONS'
+  }));
+}
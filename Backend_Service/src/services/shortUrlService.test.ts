@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestLogger, TestLogger } from '@logging-middleware/core/testing';
+import { ExpiredError, NotFoundError, ShortCodeTakenError, ValidationError } from '../errors';
+import { FileShortUrlRepository } from '../repositories/shortUrlRepository';
+import { ShortUrlService } from './shortUrlService';
+
+describe('ShortUrlService', () => {
+  let directory: string;
+  let dataFile: string;
+  let logger: TestLogger;
+  let service: ShortUrlService;
+
+  const createService = () => new ShortUrlService({
+    repository: new FileShortUrlRepository(dataFile, logger),
+    logger,
+    publicBaseUrl: 'http://sho.rt',
+    defaultValidityMinutes: 30
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'short-urls-'));
+    dataFile = path.join(directory, 'data.json');
+    logger = createTestLogger({ defaultStack: 'backend' });
+    service = createService();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('creates a short URL with a generated code and the default validity', async () => {
+    const created = await service.create({ originalUrl: ' https://example.com/page ' });
+
+    expect(created.originalUrl).toBe('https://example.com/page');
+    expect(created.shortCode).toMatch(/^[A-Za-z0-9]{6}$/);
+    expect(created.shortUrl).toBe(`http://sho.rt/${created.shortCode}`);
+    expect(created.redirectType).toBe(302);
+    expect(created.expiresAt.getTime() - created.createdAt.getTime()).toBe(30 * 60000);
+    logger.expectLogged({ level: 'info', package: 'service', data: { shortCode: created.shortCode, custom: false } });
+  });
+
+  it('keeps short URLs in the data file across restarts', async () => {
+    const created = await service.create({ originalUrl: 'https://example.com', customShortcode: 'kept' });
+
+    const reloaded = await createService().get('kept');
+
+    expect(reloaded).toEqual(created);
+    expect(reloaded.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects invalid requests with every reason', async () => {
+    const error = await service.create({
+      originalUrl: 'ftp://example.com',
+      validityPeriod: 0,
+      customShortcode: 'ab'
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details).toEqual([
+      'URL must be a valid http or https address',
+      'Validity period must be a whole number of minutes between 1 and 525600',
+      'Shortcode must be at least 3 characters long'
+    ]);
+    expect(await service.list()).toEqual([]);
+    logger.expectLogged({ level: 'warn', package: 'service' });
+  });
+
+  it('rejects reserved and taken custom shortcodes', async () => {
+    await service.create({ originalUrl: 'https://example.com', customShortcode: 'taken' });
+
+    await expect(service.create({ originalUrl: 'https://example.com', customShortcode: 'Admin' }))
+      .rejects.toThrow('This shortcode is reserved and cannot be used');
+    await expect(service.create({ originalUrl: 'https://example.com', customShortcode: 'health' }))
+      .rejects.toThrow('This shortcode is reserved and cannot be used');
+    await expect(service.create({ originalUrl: 'https://example.org', customShortcode: 'taken' }))
+      .rejects.toBeInstanceOf(ShortCodeTakenError);
+  });
+
+  it('records clicks when resolving, with the source taken from the referrer', async () => {
+    await service.create({ originalUrl: 'https://example.com', customShortcode: 'visit' });
+
+    await service.resolve('visit');
+    const resolved = await service.resolve('visit', { referrer: 'https://news.example.org/item', userAgent: 'agent' });
+
+    expect(resolved.clickCount).toBe(2);
+    expect(resolved.clicks.map(click => click.source)).toEqual(['direct', 'news.example.org']);
+    expect(resolved.clicks[1]).toMatchObject({ location: 'Unknown', userAgent: 'agent' });
+  });
+
+  it('refuses unknown and expired codes', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    await service.create({ originalUrl: 'https://example.com', customShortcode: 'brief', validityPeriod: 1 });
+
+    jest.setSystemTime(new Date('2024-01-01T00:01:00.000Z'));
+
+    await expect(service.resolve('brief')).rejects.toBeInstanceOf(ExpiredError);
+    await expect(service.resolve('missing')).rejects.toBeInstanceOf(NotFoundError);
+    expect((await service.get('brief')).clickCount).toBe(0);
+  });
+
+  it('recomputes expiry from creation when the validity changes', async () => {
+    const created = await service.create({ originalUrl: 'https://example.com', customShortcode: 'longer' });
+
+    const updated = await service.update('longer', { validityPeriod: 120, redirectType: 301 });
+
+    expect(updated.expiresAt.getTime()).toBe(created.createdAt.getTime() + 120 * 60000);
+    expect(updated.redirectType).toBe(301);
+    await expect(service.update('longer', { redirectType: 303 as never })).rejects.toThrow('Redirect type must be one of 301, 302, 307');
+    await service.delete('longer');
+    await expect(service.delete('longer')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
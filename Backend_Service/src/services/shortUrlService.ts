@@ -0,0 +1,301 @@
+import { randomInt, randomUUID } from 'crypto';
+import { Logger } from '@logging-middleware/core';
+import { ClickData, CreateShortUrlRequest, RedirectType, ShortUrl } from '../types';
+import { ExpiredError, NotFoundError, ShortCodeTakenError, ValidationError } from '../errors';
+import { ShortUrlRepository } from '../repositories/shortUrlRepository';
+
+const CODE_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+// Includes the service's fixed top-level routes, which are matched before `/:shortCode`
+const RESERVED_CODES = ['api', 'admin', 'www', 'app', 'shortener', 'statistics', 'stats', 'analytics', 'health'];
+const MAX_VALIDITY_MINUTES = 60 * 24 * 365;
+const REDIRECT_TYPES: RedirectType[] = [301, 302, 307];
+export const DEFAULT_REDIRECT_TYPE: RedirectType = 302;
+
+/**
+ * Details of a visit, taken from the redirect request
+ */
+export interface ClickInfo {
+  /** Where the visit came from; derived from `referrer` when omitted */
+  source?: string;
+  location?: string;
+  referrer?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Fields of a short URL that can change after creation
+ */
+export interface ShortUrlUpdate {
+  originalUrl?: string;
+  /** New validity in minutes, counted from creation */
+  validityPeriod?: number;
+  redirectType?: RedirectType;
+}
+
+/**
+ * Options for the short URL service
+ */
+export interface ShortUrlServiceOptions {
+  repository: ShortUrlRepository;
+  logger: Logger;
+  /** Base of generated short links, without a trailing slash */
+  publicBaseUrl: string;
+  /** Validity used when a request does not give one, in minutes */
+  defaultValidityMinutes: number;
+}
+
+/**
+ * Same rules as the frontend's validateShortcode
+ */
+function validateShortcode(shortcode: string): string[] {
+  const errors: string[] = [];
+  if (shortcode.length < 3) {
+    errors.push('Shortcode must be at least 3 characters long');
+  }
+  if (shortcode.length > 20) {
+    errors.push('Shortcode cannot be longer than 20 characters');
+  }
+  if (!/^[a-zA-Z0-9-_]+$/.test(shortcode)) {
+    errors.push('Shortcode can only contain letters, numbers, hyphens, and underscores');
+  }
+  if (RESERVED_CODES.includes(shortcode.toLowerCase())) {
+    errors.push('This shortcode is reserved and cannot be used');
+  }
+  return errors;
+}
+
+function validateValidity(validityPeriod: unknown): string[] {
+  if (!Number.isInteger(validityPeriod) || (validityPeriod as number) <= 0 || (validityPeriod as number) > MAX_VALIDITY_MINUTES) {
+    return [`Validity period must be a whole number of minutes between 1 and ${MAX_VALIDITY_MINUTES}`];
+  }
+  return [];
+}
+
+function validateRedirectType(redirectType: unknown): string[] {
+  if (!REDIRECT_TYPES.includes(redirectType as RedirectType)) {
+    return [`Redirect type must be one of ${REDIRECT_TYPES.join(', ')}`];
+  }
+  return [];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Click source: the referring host, or 'direct' when there is none
+ */
+function referrerSource(referrer?: string): string {
+  if (!referrer) {
+    return 'direct';
+  }
+  try {
+    return new URL(referrer).hostname || 'direct';
+  } catch {
+    return 'direct';
+  }
+}
+
+function randomCode(length: number): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += CODE_CHARACTERS[randomInt(CODE_CHARACTERS.length)];
+  }
+  return code;
+}
+
+/**
+ * Business rules for short URLs: validation, code generation, expiry and click recording
+ */
+export class ShortUrlService {
+  private options: ShortUrlServiceOptions;
+  private logger: Logger;
+
+  constructor(options: ShortUrlServiceOptions) {
+    this.options = options;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Validate a request and store the new short URL. Custom codes must be free;
+   * generated codes are retried on collision, growing longer if a length is crowded.
+   */
+  async create(request: CreateShortUrlRequest): Promise<ShortUrl> {
+    const originalUrl = typeof request.originalUrl === 'string' ? request.originalUrl.trim() : '';
+    const customShortcode = typeof request.customShortcode === 'string' ? request.customShortcode.trim() : '';
+    const validityPeriod = request.validityPeriod ?? this.options.defaultValidityMinutes;
+    const redirectType = request.redirectType ?? DEFAULT_REDIRECT_TYPE;
+
+    const errors: string[] = [];
+    if (!originalUrl) {
+      errors.push('URL is required');
+    } else if (!isHttpUrl(originalUrl)) {
+      errors.push('URL must be a valid http or https address');
+    }
+    errors.push(...validateValidity(validityPeriod));
+    errors.push(...validateRedirectType(redirectType));
+    if (customShortcode) {
+      errors.push(...validateShortcode(customShortcode));
+    }
+    if (errors.length > 0) {
+      void this.logger.warn('service', `Rejected short URL request: ${errors.join(', ')}`, {
+        data: { errors, customShortcode: customShortcode || undefined }
+      });
+      throw new ValidationError(errors);
+    }
+
+    const now = new Date();
+    const build = (shortCode: string): ShortUrl => ({
+      id: randomUUID(),
+      originalUrl,
+      shortCode,
+      shortUrl: `${this.options.publicBaseUrl}/${shortCode}`,
+      validityPeriod,
+      customShortcode: customShortcode || undefined,
+      redirectType,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + validityPeriod * 60000),
+      clickCount: 0,
+      clicks: []
+    });
+
+    if (customShortcode) {
+      try {
+        const created = await this.options.repository.insert(build(customShortcode));
+        void this.logger.info('service', `Created short URL ${created.shortCode}`, {
+          data: { shortCode: created.shortCode, custom: true, validityPeriod }
+        });
+        return created;
+      } catch (error) {
+        if (error instanceof ShortCodeTakenError) {
+          void this.logger.warn('service', `Custom shortcode ${customShortcode} is already taken`);
+        }
+        throw error;
+      }
+    }
+
+    for (let attempt = 1, length = 6; ; attempt++) {
+      const shortCode = randomCode(length);
+      // Case-insensitive reserved words could otherwise come up by chance
+      if (RESERVED_CODES.includes(shortCode.toLowerCase())) {
+        continue;
+      }
+      try {
+        const created = await this.options.repository.insert(build(shortCode));
+        void this.logger.info('service', `Created short URL ${created.shortCode}`, {
+          data: { shortCode: created.shortCode, custom: false, attempts: attempt, validityPeriod }
+        });
+        return created;
+      } catch (error) {
+        if (!(error instanceof ShortCodeTakenError)) {
+          throw error;
+        }
+        void this.logger.debug('service', `Generated shortcode ${shortCode} collided; retrying`, { data: { attempt } });
+        if (attempt % 10 === 0) {
+          length++;
+        }
+      }
+    }
+  }
+
+  async list(): Promise<ShortUrl[]> {
+    return this.options.repository.list();
+  }
+
+  /**
+   * Fetch a short URL by code, expired or not
+   */
+  async get(shortCode: string): Promise<ShortUrl> {
+    const shortUrl = await this.options.repository.findByCode(shortCode);
+    if (!shortUrl) {
+      throw new NotFoundError(shortCode);
+    }
+    return shortUrl;
+  }
+
+  /**
+   * Change the destination or validity of a short URL; expiry is recomputed from creation time
+   */
+  async update(shortCode: string, changes: ShortUrlUpdate): Promise<ShortUrl> {
+    const originalUrl = typeof changes.originalUrl === 'string' ? changes.originalUrl.trim() : undefined;
+    const errors: string[] = [];
+    if (originalUrl !== undefined && !isHttpUrl(originalUrl)) {
+      errors.push('URL must be a valid http or https address');
+    }
+    if (changes.validityPeriod !== undefined) {
+      errors.push(...validateValidity(changes.validityPeriod));
+    }
+    if (changes.redirectType !== undefined) {
+      errors.push(...validateRedirectType(changes.redirectType));
+    }
+    if (errors.length > 0) {
+      void this.logger.warn('service', `Rejected update of ${shortCode}: ${errors.join(', ')}`, { data: { shortCode, errors } });
+      throw new ValidationError(errors);
+    }
+
+    const updated = await this.options.repository.update(shortCode, existing => {
+      const validityPeriod = changes.validityPeriod ?? existing.validityPeriod;
+      return {
+        ...existing,
+        originalUrl: originalUrl ?? existing.originalUrl,
+        redirectType: changes.redirectType ?? existing.redirectType,
+        validityPeriod,
+        expiresAt: new Date(existing.createdAt.getTime() + validityPeriod * 60000)
+      };
+    });
+    if (!updated) {
+      throw new NotFoundError(shortCode);
+    }
+
+    void this.logger.info('service', `Updated short URL ${shortCode}`, {
+      data: { shortCode, changed: Object.keys(changes), expiresAt: updated.expiresAt.toISOString() }
+    });
+    return updated;
+  }
+
+  async delete(shortCode: string): Promise<void> {
+    const deleted = await this.options.repository.delete(shortCode);
+    if (!deleted) {
+      throw new NotFoundError(shortCode);
+    }
+    void this.logger.info('service', `Deleted short URL ${shortCode}`, { data: { shortCode } });
+  }
+
+  /**
+   * Record a visit and return the link to redirect to; throws for unknown and expired codes
+   */
+  async resolve(shortCode: string, info: ClickInfo = {}): Promise<ShortUrl> {
+    const shortUrl = await this.get(shortCode);
+    if (shortUrl.expiresAt.getTime() <= Date.now()) {
+      void this.logger.info('service', `Visit to expired short URL ${shortCode}`, {
+        data: { shortCode, expiresAt: shortUrl.expiresAt.toISOString() }
+      });
+      throw new ExpiredError(shortCode);
+    }
+
+    const click: ClickData = {
+      id: randomUUID(),
+      timestamp: new Date(),
+      source: info.source || referrerSource(info.referrer),
+      location: info.location || 'Unknown',
+      userAgent: info.userAgent,
+      ipAddress: info.ipAddress
+    };
+    const updated = await this.options.repository.addClick(shortCode, click);
+    if (!updated) {
+      // Deleted between the lookup and the click
+      throw new NotFoundError(shortCode);
+    }
+
+    void this.logger.info('service', `Short URL clicked: ${shortCode}`, {
+      data: { shortCode, clickCount: updated.clickCount, source: click.source }
+    });
+    return updated;
+  }
+}
@@ -0,0 +1,60 @@
+// API contract of the service. Frontend_Test_Submission/src/types keeps a matching copy, since the
+// app cannot import from outside its own src folder; change both together. Dates are sent as ISO strings.
+
+export interface ShortUrl {
+  id: string;
+  originalUrl: string;
+  shortCode: string;
+  shortUrl: string;
+  validityPeriod: number; // in minutes
+  customShortcode?: string;
+  redirectType?: RedirectType; // status sent by the redirect server, 302 when unset
+  createdAt: Date;
+  expiresAt: Date;
+  clickCount: number;
+  clicks: ClickData[];
+}
+
+export interface ClickData {
+  id: string;
+  timestamp: Date;
+  source: string;
+  location: string; // geographical location
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// 301 permanent (browsers cache it, so repeat visits skip the server), 302 found, 307 temporary
+export type RedirectType = 301 | 302 | 307;
+
+export interface CreateShortUrlRequest {
+  originalUrl: string;
+  validityPeriod?: number;
+  customShortcode?: string;
+  redirectType?: RedirectType;
+}
+
+export interface CreateShortUrlResponse {
+  shortUrl: ShortUrl;
+  message: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message: string;
+  error?: string;
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  message: string;
+}
+
+// On-disk layout of the store, matching the frontend's StorageData
+export interface StorageData {
+  shortUrls: ShortUrl[];
+  lastUpdated: Date;
+  version: string;
+}
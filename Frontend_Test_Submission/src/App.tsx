@@ -20,17 +20,17 @@ import StatisticsPage from './pages/StatisticsPage';
 import RedirectHandler from './components/RedirectHandler';
 
 // Utils and Hooks
-import { initializeLogger, logPageLoad, logError } from './utils/logger';
-import { useLocalStorage } from './hooks/useLocalStorage';
+import { initializeLogger, logPageLoad, logError, setWebVitalsRoute } from './utils/logger';
+import { useShortUrls } from './hooks/useShortUrls';
 
 // Types
-import { ShortUrl } from './types';
+import { CreateShortUrlRequest, ShortUrl } from './types';
 
 function App() {
   const navigate = useNavigate();
   const location = useLocation();
   const [currentTab, setCurrentTab] = useState(0);
-  const [shortUrls, setShortUrls] = useLocalStorage<ShortUrl[]>('shortUrls', []);
+  const { shortUrls, create, replace } = useShortUrls();
   const [notification, setNotification] = useState<{
     open: boolean;
     message: string;
@@ -86,15 +86,10 @@ function App() {
     setNotification(prev => ({ ...prev, open: false }));
   };
 
-  const addShortUrl = (newShortUrl: ShortUrl) => {
-    setShortUrls(prev => [newShortUrl, ...prev]);
+  const createShortUrl = async (request: CreateShortUrlRequest): Promise<ShortUrl> => {
+    const created = await create(request);
     showNotification('URL shortened successfully!', 'success');
-  };
-
-  const updateShortUrl = (updatedUrl: ShortUrl) => {
-    setShortUrls(prev => 
-      prev.map(url => url.id === updatedUrl.id ? updatedUrl : url)
-    );
+    return created;
   };
 
   // Check if current path is a potential short URL
@@ -102,13 +97,18 @@ function App() {
     !location.pathname.startsWith('/statistics') && 
     !location.pathname.startsWith('/shortener');
 
+  // Attribute web vitals to the route pattern so every short code shares one bucket
+  const vitalsRoute = isShortUrlPath ? '/:shortCode' : location.pathname;
+  useEffect(() => {
+    setWebVitalsRoute(vitalsRoute);
+  }, [vitalsRoute]);
+
   // Render redirect handler for short URLs
   if (isShortUrlPath) {
     return (
       <RedirectHandler 
         shortCode={location.pathname.substring(1)} 
-        shortUrls={shortUrls}
-        onUrlClick={updateShortUrl}
+        onUrlClick={replace}
       />
     );
   }
@@ -157,7 +157,7 @@ function App() {
             element={
               <UrlShortenerPage 
                 shortUrls={shortUrls}
-                onShortUrlCreated={addShortUrl}
+                onCreateShortUrl={createShortUrl}
                 onNotification={showNotification}
               />
             } 
@@ -167,7 +167,7 @@ function App() {
             element={
               <UrlShortenerPage 
                 shortUrls={shortUrls}
-                onShortUrlCreated={addShortUrl}
+                onCreateShortUrl={createShortUrl}
                 onNotification={showNotification}
               />
             } 
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Box, Typography, Paper, Button } from '@mui/material';
+import { Error as ErrorIcon, Refresh as RefreshIcon } from '@mui/icons-material';
+
+// Utils
+import { getErrorReporter } from '../utils/logger';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+}
+
+/**
+ * Catches render errors below it, reports them at fatal level with the component stack
+ * and route, and shows a recovery screen instead of a blank page
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): ErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+    getErrorReporter().report(error, {
+      source: 'react',
+      level: 'fatal',
+      componentStack: errorInfo.componentStack ?? undefined
+    });
+  }
+
+  handleReload = () => {
+    window.location.reload();
+  };
+
+  render() {
+    if (!this.state.hasError) {
+      return this.props.children;
+    }
+
+    return (
+      <Box 
+        sx={{ 
+          minHeight: '100vh', 
+          display: 'flex', 
+          alignItems: 'center', 
+          justifyContent: 'center',
+          bgcolor: 'background.default',
+          p: 3
+        }}
+      >
+        <Paper elevation={4} sx={{ p: 4, maxWidth: 600, textAlign: 'center' }}>
+          <ErrorIcon sx={{ fontSize: 64, color: 'error.main', mb: 2 }} />
+
+          <Typography variant="h4" gutterBottom color="error.main">
+            Something Went Wrong
+          </Typography>
+
+          <Typography variant="body1" paragraph color="text.secondary">
+            An unexpected error occurred. It has been reported; reloading the page usually fixes it.
+          </Typography>
+
+          <Button
+            variant="contained"
+            startIcon={<RefreshIcon />}
+            onClick={this.handleReload}
+            size="large"
+          >
+            Reload
+          </Button>
+        </Paper>
+      </Box>
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
   Typography,
@@ -18,20 +18,18 @@ import {
 import { useNavigate } from 'react-router-dom';
 
 // Types and Utils
-import { ShortUrl, ClickData } from '../types';
+import { ShortUrl } from '../types';
 import { isUrlExpired, formatTimeRemaining } from '../utils/urlHelpers';
-import { logUrlClick, logError, logUserAction } from '../utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { createComponentLogger } from '../utils/logger';
+import { getShortUrlRepository, RemoteShortUrlRepository } from '../repositories';
 
 interface RedirectHandlerProps {
   shortCode: string;
-  shortUrls: ShortUrl[];
   onUrlClick: (updatedUrl: ShortUrl) => void;
 }
 
 const RedirectHandler: React.FC<RedirectHandlerProps> = ({
   shortCode,
-  shortUrls,
   onUrlClick
 }) => {
   const navigate = useNavigate();
@@ -39,19 +37,36 @@ const RedirectHandler: React.FC<RedirectHandlerProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [foundUrl, setFoundUrl] = useState<ShortUrl | null>(null);
   const [countdown, setCountdown] = useState(3);
+  const logger = useMemo(() => createComponentLogger('RedirectHandler', { shortCode }), [shortCode]);
+  // StrictMode runs effects twice in development; count each visit once
+  const handledShortCode = useRef<string | null>(null);
 
   useEffect(() => {
+    if (handledShortCode.current === shortCode) {
+      return;
+    }
+    handledShortCode.current = shortCode;
+
     const handleRedirect = async () => {
       try {
-        logUserAction('access_short_url', { shortCode });
+        logger.info('component', 'User action: access_short_url');
+
+        const repository = getShortUrlRepository();
+
+        // The backend service redirects and records the click itself, with proper 404/410 pages
+        if (repository instanceof RemoteShortUrlRepository) {
+          logger.info('component', 'Forwarding to server-side redirect');
+          window.location.replace(repository.redirectUrl(shortCode));
+          return;
+        }
 
         // Find the URL by short code
-        const url = shortUrls.find(u => u.shortCode === shortCode);
+        const url = await repository.getByCode(shortCode);
         
         if (!url) {
           setError('Short URL not found. This link may have been removed or is invalid.');
           setIsRedirecting(false);
-          logError(new Error('Short URL not found'), `RedirectHandler for code: ${shortCode}`);
+          logger.error('component', 'Short URL not found', { error: new Error('Short URL not found') });
           return;
         }
 
@@ -61,31 +76,22 @@ const RedirectHandler: React.FC<RedirectHandlerProps> = ({
         if (isUrlExpired(url.expiresAt)) {
           setError('This short URL has expired and is no longer available.');
           setIsRedirecting(false);
-          logUserAction('access_expired_url', { shortCode, expiresAt: url.expiresAt });
+          logger.info('component', 'User action: access_expired_url', { data: { expiresAt: url.expiresAt } });
           return;
         }
 
-        // Create click data
-        const clickData: ClickData = {
-          id: uuidv4(),
-          timestamp: new Date(),
+        // Record the click. Browser storage keeps the user agent given here; the backend ignores it
+        // and takes the user agent and address from the request itself
+        const updatedUrl = await repository.recordClick(shortCode, {
           source: 'direct', // Could be enhanced to detect referrer
           location: 'Unknown', // Could be enhanced with geolocation
-          userAgent: navigator.userAgent,
-          ipAddress: 'Unknown' // Would need backend integration for real IP
-        };
-
-        // Update the URL with new click data
-        const updatedUrl: ShortUrl = {
-          ...url,
-          clickCount: url.clickCount + 1,
-          clicks: [...url.clicks, clickData]
-        };
+          userAgent: navigator.userAgent
+        });
 
         // Log the click
-        logUrlClick(shortCode, url.originalUrl);
+        logger.info('component', 'Short URL clicked', { data: { originalUrl: url.originalUrl } });
         
-        // Update the URL in storage
+        // Update the app's copy of the URL
         onUrlClick(updatedUrl);
 
         // Start countdown for redirect
@@ -100,29 +106,26 @@ const RedirectHandler: React.FC<RedirectHandlerProps> = ({
           }
         }, 1000);
 
-        // Cleanup timer if component unmounts
-        return () => clearInterval(timer);
-
       } catch (error) {
         setError('An unexpected error occurred while processing the redirect.');
         setIsRedirecting(false);
-        logError(error as Error, 'RedirectHandler processing');
+        logger.error('component', `Error in RedirectHandler processing: ${(error as Error).message}`, { error: error as Error });
       }
     };
 
     handleRedirect();
-  }, [shortCode, shortUrls, onUrlClick]);
+  }, [shortCode, onUrlClick, logger]);
 
   const handleManualRedirect = () => {
     if (foundUrl) {
-      logUserAction('manual_redirect', { shortCode, originalUrl: foundUrl.originalUrl });
+      logger.info('component', 'User action: manual_redirect', { data: { originalUrl: foundUrl.originalUrl } });
       window.location.href = foundUrl.originalUrl;
     }
   };
 
   const handleGoHome = () => {
     navigate('/');
-    logUserAction('navigate_home_from_redirect');
+    logger.info('component', 'User action: navigate_home_from_redirect');
   };
 
   // Error state
@@ -24,7 +24,7 @@ import {
 } from '@mui/icons-material';
 
 // Types and Utils
-import { UrlFormData } from '../types';
+import { RedirectType, UrlFormData } from '../types';
 import { validateUrl, validateShortcode, normalizeUrl } from '../utils/urlHelpers';
 import { logUserAction, logFormValidation } from '../utils/logger';
 
@@ -69,6 +69,11 @@ const UrlForm: React.FC<UrlFormProps> = ({
     logUserAction('change_validity_period', { formId: id, validity });
   };
 
+  const handleRedirectTypeChange = (id: string, redirectType: RedirectType) => {
+    onUpdateForm(id, { redirectType });
+    logUserAction('change_redirect_type', { formId: id, redirectType });
+  };
+
   const handleShortcodeChange = (id: string, shortcode: string) => {
     onUpdateForm(id, { customShortcode: shortcode });
     
@@ -273,6 +278,23 @@ const UrlForm: React.FC<UrlFormProps> = ({
                     }}
                   />
                 </Grid>
+
+                {/* Redirect Type */}
+                <Grid item xs={12} sm={6}>
+                  <FormControl fullWidth>
+                    <InputLabel>Redirect Type</InputLabel>
+                    <Select
+                      value={form.redirectType}
+                      label="Redirect Type"
+                      onChange={(e) => handleRedirectTypeChange(form.id, e.target.value as RedirectType)}
+                      disabled={form.isProcessing}
+                    >
+                      <MenuItem value={302}>302 Found (default)</MenuItem>
+                      <MenuItem value={307}>307 Temporary</MenuItem>
+                      <MenuItem value={301}>301 Permanent (cached by browsers)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Grid>
               </Grid>
             )}
 
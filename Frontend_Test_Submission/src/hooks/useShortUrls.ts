@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CreateShortUrlRequest, ShortUrl } from '../types';
+import { getShortUrlRepository, ShortUrlRepository } from '../repositories';
+import { logError } from '../utils/logger';
+
+/**
+ * Short URLs from the configured repository, kept in React state.
+ * Reloads when another tab changes them (local repository only).
+ */
+export function useShortUrls(repository: ShortUrlRepository = getShortUrlRepository()) {
+  const [shortUrls, setShortUrls] = useState<ShortUrl[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setShortUrls(await repository.list());
+      setError(null);
+    } catch (err) {
+      logError(err as Error, 'useShortUrls refresh');
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    refresh();
+    return repository.subscribe(refresh);
+  }, [repository, refresh]);
+
+  // Create through the repository and add the result to the list
+  const create = useCallback(async (request: CreateShortUrlRequest): Promise<ShortUrl> => {
+    const created = await repository.create(request);
+    setShortUrls(prev => [created, ...prev.filter(url => url.shortCode !== created.shortCode)]);
+    return created;
+  }, [repository]);
+
+  // Replace a short URL the repository already saved, e.g. after a click was recorded
+  const replace = useCallback((updated: ShortUrl) => {
+    setShortUrls(prev => prev.map(url => (url.shortCode === updated.shortCode ? updated : url)));
+  }, []);
+
+  return { shortUrls, isLoading, error, refresh, create, replace, repository };
+}
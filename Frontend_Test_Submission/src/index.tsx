@@ -4,9 +4,17 @@ import { BrowserRouter } from 'react-router-dom';
 import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import App from './App';
+import ErrorBoundary from './components/ErrorBoundary';
+import { installGlobalErrorLogging, startWebVitalsReporting } from './utils/logger';
 import theme from './theme';
 import './index.css';
 
+// Report uncaught errors and unhandled promise rejections through the logger
+installGlobalErrorLogging();
+
+// Log Core Web Vitals per route; App reports route changes
+startWebVitalsReporting();
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
@@ -16,7 +24,9 @@ root.render(
     <BrowserRouter>
       <ThemeProvider theme={theme}>
         <CssBaseline />
-        <App />
+        <ErrorBoundary>
+          <App />
+        </ErrorBoundary>
       </ThemeProvider>
     </BrowserRouter>
   </React.StrictMode>
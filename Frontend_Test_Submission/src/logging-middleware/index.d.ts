@@ -1,5 +0,0 @@
-export type { LogLevel, LogStack, LogPackage, LoggerConfig, LogEntry, LogResponse, Logger } from './types';
-export { LoggingMiddleware } from './logger';
-export { createLogger, createFrontendLogger, createBackendLogger } from './factory';
-export { LoggingMiddleware as default } from './logger';
-//# sourceMappingURL=index.d.ts.map
\ No newline at end of file
@@ -40,7 +40,7 @@ import {
   isUrlExpired,
   copyToClipboard
 } from '../utils/urlHelpers';
-import { logPageLoad, logUserAction } from '../utils/logger';
+import { startPageLoadTimer, logUserAction } from '../utils/logger';
 
 interface StatisticsPageProps {
   shortUrls: ShortUrl[];
@@ -53,12 +53,11 @@ const StatisticsPage: React.FC<StatisticsPageProps> = ({
 }) => {
   const [copiedUrls, setCopiedUrls] = useState<Set<string>>(new Set());
 
+  const [pageLoadTimer] = useState(() => startPageLoadTimer('StatisticsPage'));
+
   useEffect(() => {
-    const startTime = performance.now();
-    logPageLoad('StatisticsPage');
-    const endTime = performance.now();
-    logPageLoad('StatisticsPage', endTime - startTime);
-  }, []);
+    pageLoadTimer.end();
+  }, [pageLoadTimer]);
 
   // Calculate statistics
   const statistics: UrlStatistics = useMemo(() => {
@@ -14,20 +14,20 @@ import UrlForm from '../components/UrlForm';
 import UrlResults from '../components/UrlResults';
 
 // Utils and Types
-import { ShortUrl, UrlFormData } from '../types';
-import { logPageLoad, logUserAction, logFormValidation } from '../utils/logger';
-import { validateUrl, generateShortCode } from '../utils/urlHelpers';
+import { CreateShortUrlRequest, ShortUrl, UrlFormData } from '../types';
+import { getLogger, startPageLoadTimer, logUserAction, logFormValidation } from '../utils/logger';
+import { validateUrl } from '../utils/urlHelpers';
 import { v4 as uuidv4 } from 'uuid';
 
 interface UrlShortenerPageProps {
   shortUrls: ShortUrl[];
-  onShortUrlCreated: (shortUrl: ShortUrl) => void;
+  onCreateShortUrl: (request: CreateShortUrlRequest) => Promise<ShortUrl>;
   onNotification: (message: string, severity?: 'success' | 'error' | 'warning' | 'info') => void;
 }
 
 const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
   shortUrls,
-  onShortUrlCreated,
+  onCreateShortUrl,
   onNotification
 }) => {
   const [urlForms, setUrlForms] = useState<UrlFormData[]>(() => [
@@ -36,17 +36,17 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
       originalUrl: '',
       validityPeriod: 30,
       customShortcode: '',
+      redirectType: 302,
       isProcessing: false
     }
   ]);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  const [pageLoadTimer] = useState(() => startPageLoadTimer('UrlShortenerPage'));
+
   useEffect(() => {
-    const startTime = performance.now();
-    logPageLoad('UrlShortenerPage');
-    const endTime = performance.now();
-    logPageLoad('UrlShortenerPage', endTime - startTime);
-  }, []);
+    pageLoadTimer.end();
+  }, [pageLoadTimer]);
 
   const addUrlForm = () => {
     if (urlForms.length < 5) {
@@ -55,6 +55,7 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
         originalUrl: '',
         validityPeriod: 30,
         customShortcode: '',
+        redirectType: 302,
         isProcessing: false
       };
       setUrlForms(prev => [...prev, newForm]);
@@ -114,10 +115,6 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
     return errors;
   };
 
-  const getAllUsedShortCodes = (): string[] => {
-    return shortUrls.map(url => url.shortCode);
-  };
-
   const processUrlForm = async (form: UrlFormData): Promise<ShortUrl> => {
     const errors = validateForm(form);
     if (errors.length > 0) {
@@ -127,28 +124,13 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
 
     logFormValidation('url_shortening', true);
 
-    // Generate short code
-    const usedCodes = getAllUsedShortCodes();
-    const shortCode = form.customShortcode.trim() || generateShortCode(usedCodes);
-
-    // Create the short URL object
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + form.validityPeriod * 60000);
-
-    const shortUrl: ShortUrl = {
-      id: uuidv4(),
+    // The repository assigns the short code and checks it is unique
+    return onCreateShortUrl({
       originalUrl: form.originalUrl.trim(),
-      shortCode,
-      shortUrl: `http://localhost:3000/${shortCode}`,
       validityPeriod: form.validityPeriod,
       customShortcode: form.customShortcode.trim() || undefined,
-      createdAt: now,
-      expiresAt,
-      clickCount: 0,
-      clicks: []
-    };
-
-    return shortUrl;
+      redirectType: form.redirectType
+    });
   };
 
   const handleSubmitAll = async () => {
@@ -165,18 +147,25 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
       return;
     }
 
+    // One span for the batch, with a nested span per form to show which ones are slow or failing
+    const batchSpan = getLogger().startTimer('submit_all_urls', {
+      package: 'component',
+      data: { totalUrls: validForms.length }
+    });
+
     // Process all forms concurrently
     const promises = validForms.map(async (form) => {
       updateUrlForm(form.id, { isProcessing: true, error: undefined });
       
       try {
-        const shortUrl = await processUrlForm(form);
+        const shortUrl = await batchSpan.time('process_url_form', () => processUrlForm(form), {
+          data: { formId: form.id }
+        });
         updateUrlForm(form.id, { 
           isProcessing: false, 
           result: shortUrl,
           error: undefined 
         });
-        onShortUrlCreated(shortUrl);
         return { success: true, form, shortUrl };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -192,6 +181,7 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
       const results = await Promise.all(promises);
       const successful = results.filter(r => r.success).length;
       const failed = results.filter(r => !r.success).length;
+      batchSpan.end({ successful, failed });
 
       if (successful > 0 && failed === 0) {
         onNotification(`Successfully created ${successful} short URL${successful > 1 ? 's' : ''}!`, 'success');
@@ -201,6 +191,7 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
         onNotification('Failed to create any URLs. Please check the errors and try again.', 'error');
       }
     } catch (error) {
+      batchSpan.fail(error);
       onNotification('An unexpected error occurred while processing URLs', 'error');
     } finally {
       setIsProcessing(false);
@@ -212,6 +203,7 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
       originalUrl: '',
       validityPeriod: 30,
       customShortcode: '',
+      redirectType: 302,
       isProcessing: false,
       result: undefined,
       error: undefined
@@ -225,6 +217,7 @@ const UrlShortenerPage: React.FC<UrlShortenerPageProps> = ({
       originalUrl: '',
       validityPeriod: 30,
       customShortcode: '',
+      redirectType: 302,
       isProcessing: false
     }]);
     logUserAction('reset_all_forms');
@@ -0,0 +1,37 @@
+import { logConfigLoad } from '../utils/logger';
+import { ShortUrlRepository } from './shortUrlRepository';
+import { LocalShortUrlRepository } from './localShortUrlRepository';
+import { IndexedDbShortUrlRepository } from './indexedDbShortUrlRepository';
+import { RemoteShortUrlRepository } from './remoteShortUrlRepository';
+
+export type { ShortUrlRepository, ShortUrlUpdate, ClickDetails } from './shortUrlRepository';
+export { LocalShortUrlRepository } from './localShortUrlRepository';
+export { IndexedDbShortUrlRepository } from './indexedDbShortUrlRepository';
+export { RemoteShortUrlRepository, ApiError } from './remoteShortUrlRepository';
+
+// Storage backend: 'local' (default) keeps links in this browser's IndexedDB, 'remote' uses the backend service
+const REPOSITORY_CONFIG = {
+  backend: process.env.REACT_APP_SHORT_URL_BACKEND || 'local',
+  apiUrl: process.env.REACT_APP_SHORT_URL_API_URL || 'http://127.0.0.1:5000'
+};
+
+let repository: ShortUrlRepository | null = null;
+
+export const getShortUrlRepository = (): ShortUrlRepository => {
+  if (!repository) {
+    // localStorage only where IndexedDB is missing; its data is migrated once IndexedDB is available
+    const storage = REPOSITORY_CONFIG.backend === 'remote'
+      ? 'remote'
+      : typeof window.indexedDB !== 'undefined' ? 'indexeddb' : 'localstorage';
+    repository = storage === 'remote'
+      ? new RemoteShortUrlRepository(REPOSITORY_CONFIG.apiUrl)
+      : storage === 'indexeddb' ? new IndexedDbShortUrlRepository() : new LocalShortUrlRepository();
+    logConfigLoad(`short URL repository (${storage})`, true);
+  }
+  return repository;
+};
+
+// Replace the shared repository, e.g. with a stub in tests; pass null to go back to the configured one
+export const setShortUrlRepository = (instance: ShortUrlRepository | null): void => {
+  repository = instance;
+};
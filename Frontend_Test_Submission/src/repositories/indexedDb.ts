@@ -0,0 +1,104 @@
+import { ClickData, ShortUrl, StorageData } from '../types';
+
+export const DATABASE_NAME = 'url-shortener';
+// Object store layout; bump it and extend `upgradeSchema` when stores or indexes change
+const DATABASE_VERSION = 1;
+
+export const SHORT_URL_STORE = 'shortUrls';
+export const CLICK_STORE = 'clicks';
+export const META_STORE = 'meta';
+
+// Clicks by short URL, in time order; see `clickRange`
+export const CLICKS_BY_URL_INDEX = 'shortCodeTimestamp';
+export const CLICKS_BY_TIME_INDEX = 'timestamp';
+
+/**
+ * A short URL as stored; its clicks live in the clicks store
+ */
+export type StoredShortUrl = Omit<ShortUrl, 'clicks'>;
+
+/**
+ * A click as stored, tagged with the short URL it belongs to
+ */
+export type StoredClick = ClickData & { shortCode: string };
+
+export const STORAGE_META_KEY = 'storage';
+
+/**
+ * Version record of the stored data, the `StorageData` header without the links themselves
+ */
+export type StorageMeta = Omit<StorageData, 'shortUrls'> & { key: typeof STORAGE_META_KEY };
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Run `work` in one transaction and resolve once it has committed. `work` may only await
+ * requests of this transaction, otherwise IndexedDB commits it early. A throw aborts every change.
+ */
+export const runTransaction = async <T>(
+  database: IDBDatabase,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const transaction = database.transaction(storeNames, mode);
+  const done = transactionDone(transaction);
+  try {
+    const result = await work(transaction);
+    await done;
+    return result;
+  } catch (error) {
+    done.catch(() => undefined);
+    try {
+      transaction.abort();
+    } catch {
+      // Already aborted by the failed request
+    }
+    throw error;
+  }
+};
+
+/**
+ * Key range covering every click of one short URL; arrays sort after dates, so `[shortCode, []]` is past the last click
+ */
+export const clickRange = (shortCode: string): IDBKeyRange => IDBKeyRange.bound([shortCode], [shortCode, []]);
+
+function upgradeSchema(database: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const shortUrls = database.createObjectStore(SHORT_URL_STORE, { keyPath: 'shortCode' });
+    shortUrls.createIndex('createdAt', 'createdAt');
+
+    const clicks = database.createObjectStore(CLICK_STORE, { keyPath: 'id' });
+    clicks.createIndex(CLICKS_BY_URL_INDEX, ['shortCode', 'timestamp']);
+    clicks.createIndex(CLICKS_BY_TIME_INDEX, 'timestamp');
+
+    database.createObjectStore(META_STORE, { keyPath: 'key' });
+  }
+}
+
+/**
+ * Open the database, creating or upgrading its object stores as needed
+ */
+export const openDatabase = (name: string = DATABASE_NAME): Promise<IDBDatabase> => {
+  if (typeof window.indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(name, DATABASE_VERSION);
+    request.onupgradeneeded = event => upgradeSchema(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClickData, CreateShortUrlRequest, ShortUrl } from '../types';
+import { generateShortCode } from '../utils/urlHelpers';
+import { logError, logStorageOperation } from '../utils/logger';
+import { ClickDetails, ShortUrlRepository, ShortUrlUpdate } from './shortUrlRepository';
+import {
+  CLICKS_BY_URL_INDEX,
+  CLICK_STORE,
+  DATABASE_NAME,
+  SHORT_URL_STORE,
+  StoredClick,
+  StoredShortUrl,
+  clickRange,
+  openDatabase,
+  requestResult,
+  runTransaction
+} from './indexedDb';
+import { migrateStorage } from './storageMigrations';
+
+const toClickData = ({ shortCode, ...click }: StoredClick): ClickData => click;
+
+const withClicks = (shortUrl: StoredShortUrl, clicks: StoredClick[]): ShortUrl => ({
+  ...shortUrl,
+  clicks: clicks.map(toClickData)
+});
+
+const newestFirst = (a: StoredShortUrl, b: StoredShortUrl) => b.createdAt.getTime() - a.createdAt.getTime();
+
+/**
+ * Keeps short URLs in this browser's IndexedDB, with each click a separate record indexed by
+ * short URL and time, so neither the localStorage quota nor JSON date handling get in the way.
+ * Data in the old localStorage format is migrated on first use; other tabs hear about changes
+ * through a BroadcastChannel.
+ */
+export class IndexedDbShortUrlRepository implements ShortUrlRepository {
+  readonly kind = 'local' as const;
+  private databaseName: string;
+  private legacyKey: string;
+  private database: Promise<IDBDatabase> | null = null;
+  private channel: BroadcastChannel | null;
+
+  constructor(databaseName: string = DATABASE_NAME, legacyKey: string = 'shortUrls') {
+    this.databaseName = databaseName;
+    this.legacyKey = legacyKey;
+    this.channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(databaseName);
+  }
+
+  async create(request: CreateShortUrlRequest): Promise<ShortUrl> {
+    const customShortcode = request.customShortcode?.trim() || undefined;
+    const validityPeriod = request.validityPeriod ?? 30;
+
+    const shortUrl = await this.write([SHORT_URL_STORE], async transaction => {
+      const store = transaction.objectStore(SHORT_URL_STORE);
+      let shortCode = customShortcode;
+      if (shortCode) {
+        if (await requestResult(store.getKey(shortCode))) {
+          throw new Error('This custom shortcode is already in use');
+        }
+      } else {
+        shortCode = generateShortCode((await requestResult(store.getAllKeys())) as string[]);
+      }
+
+      const now = new Date();
+      const created: StoredShortUrl = {
+        id: uuidv4(),
+        originalUrl: request.originalUrl.trim(),
+        shortCode,
+        shortUrl: `${window.location.origin}/${shortCode}`,
+        validityPeriod,
+        customShortcode,
+        redirectType: request.redirectType,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + validityPeriod * 60000),
+        clickCount: 0
+      };
+      await requestResult(store.add(created));
+      return created;
+    });
+
+    return withClicks(shortUrl, []);
+  }
+
+  async getByCode(shortCode: string): Promise<ShortUrl | null> {
+    return this.read([SHORT_URL_STORE, CLICK_STORE], async transaction => {
+      const shortUrl = await requestResult<StoredShortUrl | undefined>(transaction.objectStore(SHORT_URL_STORE).get(shortCode));
+      return shortUrl ? withClicks(shortUrl, await this.clicksOf(transaction, shortCode)) : null;
+    });
+  }
+
+  async list(): Promise<ShortUrl[]> {
+    return this.read([SHORT_URL_STORE, CLICK_STORE], async transaction => {
+      const shortUrls = await requestResult<StoredShortUrl[]>(transaction.objectStore(SHORT_URL_STORE).getAll());
+      // Already ordered by short code, then time
+      const clicks = await requestResult<StoredClick[]>(transaction.objectStore(CLICK_STORE).index(CLICKS_BY_URL_INDEX).getAll());
+
+      const clicksByCode: Record<string, StoredClick[]> = {};
+      clicks.forEach(click => {
+        (clicksByCode[click.shortCode] = clicksByCode[click.shortCode] || []).push(click);
+      });
+      return shortUrls.sort(newestFirst).map(shortUrl => withClicks(shortUrl, clicksByCode[shortUrl.shortCode] || []));
+    });
+  }
+
+  async update(shortCode: string, changes: ShortUrlUpdate): Promise<ShortUrl> {
+    return this.write([SHORT_URL_STORE, CLICK_STORE], async transaction => {
+      const store = transaction.objectStore(SHORT_URL_STORE);
+      const url = await this.require(store, shortCode);
+      const validityPeriod = changes.validityPeriod ?? url.validityPeriod;
+      const updated: StoredShortUrl = {
+        ...url,
+        originalUrl: changes.originalUrl?.trim() || url.originalUrl,
+        redirectType: changes.redirectType ?? url.redirectType,
+        validityPeriod,
+        expiresAt: new Date(url.createdAt.getTime() + validityPeriod * 60000)
+      };
+      await requestResult(store.put(updated));
+      return withClicks(updated, await this.clicksOf(transaction, shortCode));
+    });
+  }
+
+  async delete(shortCode: string): Promise<void> {
+    await this.write([SHORT_URL_STORE, CLICK_STORE], async transaction => {
+      const store = transaction.objectStore(SHORT_URL_STORE);
+      await this.require(store, shortCode);
+      const clicks = transaction.objectStore(CLICK_STORE);
+      const clickIds = await requestResult(clicks.index(CLICKS_BY_URL_INDEX).getAllKeys(clickRange(shortCode)));
+      clickIds.forEach(id => clicks.delete(id));
+      await requestResult(store.delete(shortCode));
+    });
+  }
+
+  async recordClick(shortCode: string, details: ClickDetails): Promise<ShortUrl> {
+    return this.write([SHORT_URL_STORE, CLICK_STORE], async transaction => {
+      const store = transaction.objectStore(SHORT_URL_STORE);
+      const url = await this.require(store, shortCode);
+      const click: StoredClick = { id: uuidv4(), timestamp: new Date(), ...details, shortCode };
+      const updated: StoredShortUrl = { ...url, clickCount: url.clickCount + 1 };
+
+      await requestResult(transaction.objectStore(CLICK_STORE).add(click));
+      await requestResult(store.put(updated));
+      return withClicks(updated, await this.clicksOf(transaction, shortCode));
+    });
+  }
+
+  subscribe(listener: () => void): () => void {
+    const channel = this.channel;
+    if (!channel) {
+      return () => {};
+    }
+
+    const handleMessage = () => {
+      logStorageOperation('sync', this.databaseName, true);
+      listener();
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  /**
+   * Open the database once, migrating older data before anything else reads it
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = openDatabase(this.databaseName).then(async database => {
+        // Let a newer version of the app in another tab upgrade the schema
+        database.onversionchange = () => {
+          database.close();
+          this.database = null;
+        };
+        await migrateStorage({ database, legacyKey: this.legacyKey });
+        return database;
+      });
+      this.database.catch(error => {
+        logError(error as Error, `IndexedDB open for database: ${this.databaseName}`);
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async read<T>(storeNames: string[], work: (transaction: IDBTransaction) => Promise<T>): Promise<T> {
+    try {
+      const result = await runTransaction(await this.open(), storeNames, 'readonly', work);
+      logStorageOperation('read', this.databaseName, true);
+      return result;
+    } catch (error) {
+      logStorageOperation('read', this.databaseName, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a readwrite transaction and tell other tabs once it has committed
+   */
+  private async write<T>(storeNames: string[], work: (transaction: IDBTransaction) => Promise<T>): Promise<T> {
+    try {
+      const result = await runTransaction(await this.open(), storeNames, 'readwrite', work);
+      logStorageOperation('write', this.databaseName, true);
+      this.channel?.postMessage('changed');
+      return result;
+    } catch (error) {
+      logStorageOperation('write', this.databaseName, false);
+      throw error;
+    }
+  }
+
+  private async require(store: IDBObjectStore, shortCode: string): Promise<StoredShortUrl> {
+    const shortUrl = await requestResult<StoredShortUrl | undefined>(store.get(shortCode));
+    if (!shortUrl) {
+      throw new Error(`Short URL "${shortCode}" not found`);
+    }
+    return shortUrl;
+  }
+
+  private clicksOf(transaction: IDBTransaction, shortCode: string): Promise<StoredClick[]> {
+    return requestResult<StoredClick[]>(
+      transaction.objectStore(CLICK_STORE).index(CLICKS_BY_URL_INDEX).getAll(clickRange(shortCode))
+    );
+  }
+}
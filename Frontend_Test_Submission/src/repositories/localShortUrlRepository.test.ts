@@ -0,0 +1,62 @@
+import { LocalShortUrlRepository } from './localShortUrlRepository';
+
+jest.mock('../utils/logger', () => ({
+  logError: jest.fn(),
+  logStorageOperation: jest.fn(),
+  logUserAction: jest.fn()
+}));
+
+describe('LocalShortUrlRepository', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('keeps short URLs in localStorage, newest first', async () => {
+    const repository = new LocalShortUrlRepository();
+
+    const first = await repository.create({ originalUrl: ' https://example.com/one ', validityPeriod: 10 });
+    const second = await repository.create({ originalUrl: 'https://example.com/two', customShortcode: 'two' });
+
+    expect(first.originalUrl).toBe('https://example.com/one');
+    expect(first.shortCode).toHaveLength(6);
+    expect(first.expiresAt.getTime() - first.createdAt.getTime()).toBe(10 * 60000);
+    expect(second.shortUrl).toBe(`${window.location.origin}/two`);
+    expect((await new LocalShortUrlRepository().list()).map(url => url.shortCode)).toEqual(['two', first.shortCode]);
+  });
+
+  it('rejects a custom shortcode that is already in use', async () => {
+    const repository = new LocalShortUrlRepository();
+    await repository.create({ originalUrl: 'https://example.com', customShortcode: 'taken' });
+
+    await expect(repository.create({ originalUrl: 'https://example.org', customShortcode: 'taken' }))
+      .rejects.toThrow('This custom shortcode is already in use');
+  });
+
+  it('records clicks and recomputes expiry from creation on update', async () => {
+    const repository = new LocalShortUrlRepository();
+    const created = await repository.create({ originalUrl: 'https://example.com', customShortcode: 'abc' });
+
+    const clicked = await repository.recordClick('abc', { source: 'direct', location: 'Unknown' });
+    const updated = await repository.update('abc', { validityPeriod: 60 });
+
+    expect(clicked.clickCount).toBe(1);
+    expect(clicked.clicks[0]).toMatchObject({ source: 'direct', id: expect.any(String) });
+    expect(updated.expiresAt.getTime()).toBe(created.createdAt.getTime() + 60 * 60000);
+    await repository.delete('abc');
+    await expect(repository.getByCode('abc')).resolves.toBeNull();
+    await expect(repository.delete('abc')).rejects.toThrow('Short URL "abc" not found');
+  });
+
+  it('notifies subscribers when another tab changes the same key', () => {
+    const repository = new LocalShortUrlRepository();
+    const listener = jest.fn();
+    const unsubscribe = repository.subscribe(listener);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other' }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'shortUrls' }));
+    unsubscribe();
+    window.dispatchEvent(new StorageEvent('storage', { key: 'shortUrls' }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
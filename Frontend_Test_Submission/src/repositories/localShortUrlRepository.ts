@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CreateShortUrlRequest, ShortUrl } from '../types';
+import { generateShortCode } from '../utils/urlHelpers';
+import { logError, logStorageOperation } from '../utils/logger';
+import { ClickDetails, ShortUrlRepository, ShortUrlUpdate, reviveShortUrl } from './shortUrlRepository';
+
+/**
+ * Keeps short URLs in this browser's localStorage, as the app always has.
+ * Links only resolve in the browser that created them.
+ */
+export class LocalShortUrlRepository implements ShortUrlRepository {
+  readonly kind = 'local' as const;
+  private storageKey: string;
+
+  constructor(storageKey: string = 'shortUrls') {
+    this.storageKey = storageKey;
+  }
+
+  async create(request: CreateShortUrlRequest): Promise<ShortUrl> {
+    const shortUrls = this.read();
+    const customShortcode = request.customShortcode?.trim() || undefined;
+    if (customShortcode && shortUrls.some(url => url.shortCode === customShortcode)) {
+      throw new Error('This custom shortcode is already in use');
+    }
+
+    const shortCode = customShortcode || generateShortCode(shortUrls.map(url => url.shortCode));
+    const validityPeriod = request.validityPeriod ?? 30;
+    const now = new Date();
+
+    const shortUrl: ShortUrl = {
+      id: uuidv4(),
+      originalUrl: request.originalUrl.trim(),
+      shortCode,
+      shortUrl: `${window.location.origin}/${shortCode}`,
+      validityPeriod,
+      customShortcode,
+      redirectType: request.redirectType,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + validityPeriod * 60000),
+      clickCount: 0,
+      clicks: []
+    };
+
+    this.write([shortUrl, ...shortUrls]);
+    return shortUrl;
+  }
+
+  async getByCode(shortCode: string): Promise<ShortUrl | null> {
+    return this.read().find(url => url.shortCode === shortCode) ?? null;
+  }
+
+  async list(): Promise<ShortUrl[]> {
+    return this.read();
+  }
+
+  async update(shortCode: string, changes: ShortUrlUpdate): Promise<ShortUrl> {
+    return this.modify(shortCode, url => {
+      const validityPeriod = changes.validityPeriod ?? url.validityPeriod;
+      return {
+        ...url,
+        originalUrl: changes.originalUrl?.trim() || url.originalUrl,
+        redirectType: changes.redirectType ?? url.redirectType,
+        validityPeriod,
+        expiresAt: new Date(url.createdAt.getTime() + validityPeriod * 60000)
+      };
+    });
+  }
+
+  async delete(shortCode: string): Promise<void> {
+    const shortUrls = this.read();
+    if (!shortUrls.some(url => url.shortCode === shortCode)) {
+      throw new Error(`Short URL "${shortCode}" not found`);
+    }
+    this.write(shortUrls.filter(url => url.shortCode !== shortCode));
+  }
+
+  async recordClick(shortCode: string, details: ClickDetails): Promise<ShortUrl> {
+    return this.modify(shortCode, url => ({
+      ...url,
+      clickCount: url.clickCount + 1,
+      clicks: [...url.clicks, { id: uuidv4(), timestamp: new Date(), ...details }]
+    }));
+  }
+
+  subscribe(listener: () => void): () => void {
+    const handleStorageChange = (event: StorageEvent) => {
+      if (event.key === this.storageKey) {
+        logStorageOperation('sync', this.storageKey, true);
+        listener();
+      }
+    };
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  }
+
+  private modify(shortCode: string, change: (url: ShortUrl) => ShortUrl): ShortUrl {
+    const shortUrls = this.read();
+    const index = shortUrls.findIndex(url => url.shortCode === shortCode);
+    if (index === -1) {
+      throw new Error(`Short URL "${shortCode}" not found`);
+    }
+
+    const updated = change(shortUrls[index]);
+    this.write(shortUrls.map((url, i) => (i === index ? updated : url)));
+    return updated;
+  }
+
+  private read(): ShortUrl[] {
+    try {
+      const item = window.localStorage.getItem(this.storageKey);
+      logStorageOperation('read', this.storageKey, item !== null);
+      return item ? (JSON.parse(item) as ShortUrl[]).map(reviveShortUrl) : [];
+    } catch (error) {
+      logError(error as Error, `localStorage read for key: ${this.storageKey}`);
+      logStorageOperation('read', this.storageKey, false);
+      return [];
+    }
+  }
+
+  private write(shortUrls: ShortUrl[]): void {
+    try {
+      window.localStorage.setItem(this.storageKey, JSON.stringify(shortUrls));
+      logStorageOperation('write', this.storageKey, true);
+    } catch (error) {
+      logError(error as Error, `localStorage write for key: ${this.storageKey}`);
+      logStorageOperation('write', this.storageKey, false);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { ShortUrl } from '../types';
+import { ApiError, RemoteShortUrlRepository } from './remoteShortUrlRepository';
+
+jest.mock('../utils/logger', () => ({
+  logApiCall: jest.fn(),
+  logError: jest.fn()
+}));
+
+const shortUrl = {
+  id: 'url-1',
+  originalUrl: 'https://example.com',
+  shortCode: 'abc',
+  shortUrl: 'http://127.0.0.1:5000/abc',
+  validityPeriod: 30,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  expiresAt: '2024-01-01T00:30:00.000Z',
+  clickCount: 1,
+  clicks: [{ id: 'click-1', timestamp: '2024-01-01T00:10:00.000Z', source: 'direct', location: 'Unknown' }]
+} as unknown as ShortUrl;
+
+const respond = (status: number, body: unknown) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) } as Response);
+
+describe('RemoteShortUrlRepository', () => {
+  const fetchMock = jest.fn();
+  const repository = new RemoteShortUrlRepository('http://127.0.0.1:5000/');
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('creates short URLs through the API and revives their dates', async () => {
+    fetchMock.mockReturnValue(respond(201, { success: true, data: { shortUrl } }));
+
+    const created = await repository.create({ originalUrl: 'https://example.com', customShortcode: 'abc' });
+
+    expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:5000/api/urls', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ originalUrl: 'https://example.com', customShortcode: 'abc' })
+    });
+    expect(created.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(created.clicks[0].timestamp).toEqual(new Date('2024-01-01T00:10:00.000Z'));
+  });
+
+  it('turns error responses into ApiErrors with the server message and code', async () => {
+    fetchMock.mockReturnValue(respond(409, { success: false, error: 'shortcode_taken', message: 'Shortcode "abc" is already in use' }));
+
+    const error = await repository.create({ originalUrl: 'https://example.com', customShortcode: 'abc' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 409, code: 'shortcode_taken', message: 'Shortcode "abc" is already in use' });
+  });
+
+  it('resolves null for unknown codes and reports unreachable services', async () => {
+    fetchMock.mockReturnValueOnce(respond(404, { success: false, error: 'not_found', message: 'Not found' }));
+    await expect(repository.getByCode('missing')).resolves.toBeNull();
+
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await expect(repository.list()).rejects.toMatchObject({ status: 0, code: 'network_error' });
+  });
+
+  it('encodes short codes in request paths and redirect links', async () => {
+    fetchMock.mockReturnValue(respond(200, { success: true, data: null }));
+
+    await repository.delete('a/b');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:5000/api/urls/a%2Fb');
+    expect(repository.redirectUrl('a/b')).toBe('http://127.0.0.1:5000/a%2Fb');
+  });
+});
@@ -0,0 +1,110 @@
+import { ApiResponse, CreateShortUrlRequest, CreateShortUrlResponse, ErrorResponse, ShortUrl } from '../types';
+import { logApiCall, logError } from '../utils/logger';
+import { ClickDetails, ShortUrlRepository, ShortUrlUpdate, reviveShortUrl } from './shortUrlRepository';
+
+/**
+ * Failed backend call; `code` is the `error` field of the ErrorResponse, e.g. 'shortcode_taken'
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Talks to the backend service's REST API, which wraps every result in `ApiResponse<T>`
+ */
+export class RemoteShortUrlRepository implements ShortUrlRepository {
+  readonly kind = 'remote' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async create(request: CreateShortUrlRequest): Promise<ShortUrl> {
+    const response = await this.request<CreateShortUrlResponse>('POST', '/api/urls', request);
+    return reviveShortUrl(response.shortUrl);
+  }
+
+  async getByCode(shortCode: string): Promise<ShortUrl | null> {
+    try {
+      return reviveShortUrl(await this.request<ShortUrl>('GET', `/api/urls/${encodeURIComponent(shortCode)}`));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<ShortUrl[]> {
+    const shortUrls = await this.request<ShortUrl[]>('GET', '/api/urls');
+    return shortUrls.map(reviveShortUrl);
+  }
+
+  async update(shortCode: string, changes: ShortUrlUpdate): Promise<ShortUrl> {
+    return reviveShortUrl(await this.request<ShortUrl>('PATCH', `/api/urls/${encodeURIComponent(shortCode)}`, changes));
+  }
+
+  async delete(shortCode: string): Promise<void> {
+    await this.request<null>('DELETE', `/api/urls/${encodeURIComponent(shortCode)}`);
+  }
+
+  async recordClick(shortCode: string, details: ClickDetails): Promise<ShortUrl> {
+    return reviveShortUrl(
+      await this.request<ShortUrl>('POST', `/api/urls/${encodeURIComponent(shortCode)}/clicks`, details)
+    );
+  }
+
+  /**
+   * The service's own redirect for a code, which answers with the link's 301/302/307 and counts the visit
+   */
+  redirectUrl(shortCode: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(shortCode)}`;
+  }
+
+  subscribe(): () => void {
+    // The backend does not push changes; callers refresh with list()
+    return () => {};
+  }
+
+  /**
+   * Call the API and unwrap `data`, logging the call and its status.
+   * Error responses become ApiErrors carrying the server's message.
+   */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    logApiCall(path, method);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      logError(error as Error, `API ${method} ${path}`);
+      throw new ApiError(0, 'network_error', 'Could not reach the URL shortener service');
+    }
+
+    logApiCall(path, method, response.status);
+    const payload = (await response.json().catch(() => null)) as ApiResponse<T> | ErrorResponse | null;
+
+    if (!response.ok || !payload?.success) {
+      const failure = payload as ErrorResponse | null;
+      throw new ApiError(
+        response.status,
+        failure?.error ?? 'unexpected_response',
+        failure?.message ?? `Request failed with status ${response.status}`
+      );
+    }
+    return payload.data;
+  }
+}
@@ -0,0 +1,45 @@
+import { ClickData, CreateShortUrlRequest, RedirectType, ShortUrl } from '../types';
+
+/**
+ * Fields of a short URL that can change after it was created
+ */
+export interface ShortUrlUpdate {
+  originalUrl?: string;
+  /** New validity in minutes, counted from creation */
+  validityPeriod?: number;
+  redirectType?: RedirectType;
+}
+
+/**
+ * Visit details recorded with a click; the repository assigns the ID and timestamp
+ */
+export type ClickDetails = Omit<ClickData, 'id' | 'timestamp'>;
+
+/**
+ * Where short URLs live: this browser's storage, or the backend service
+ */
+export interface ShortUrlRepository {
+  readonly kind: 'local' | 'remote';
+  /** Create a short URL; rejects when validation fails or a custom shortcode is taken */
+  create(request: CreateShortUrlRequest): Promise<ShortUrl>;
+  /** Look up a short URL, resolving null for unknown codes */
+  getByCode(shortCode: string): Promise<ShortUrl | null>;
+  /** Every short URL, newest first */
+  list(): Promise<ShortUrl[]>;
+  update(shortCode: string, changes: ShortUrlUpdate): Promise<ShortUrl>;
+  delete(shortCode: string): Promise<void>;
+  /** Record a visit and resolve with the updated short URL */
+  recordClick(shortCode: string, details: ClickDetails): Promise<ShortUrl>;
+  /** Call `listener` when short URLs change outside this page, e.g. in another tab. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Turn the ISO strings JSON leaves in date fields back into Dates
+ */
+export const reviveShortUrl = (raw: ShortUrl): ShortUrl => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  expiresAt: new Date(raw.expiresAt),
+  clicks: (raw.clicks ?? []).map(click => ({ ...click, timestamp: new Date(click.timestamp) }))
+});
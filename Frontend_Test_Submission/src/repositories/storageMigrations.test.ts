@@ -0,0 +1,102 @@
+import 'fake-indexeddb/auto';
+import { ShortUrl } from '../types';
+import { logStorageMigration } from '../utils/logger';
+import { CLICK_STORE, META_STORE, SHORT_URL_STORE, STORAGE_META_KEY, openDatabase, requestResult, runTransaction } from './indexedDb';
+import { migrateStorage } from './storageMigrations';
+
+jest.mock('../utils/logger', () => ({
+  logError: jest.fn(),
+  logStorageMigration: jest.fn()
+}));
+
+const LEGACY_KEY = 'shortUrls';
+
+const legacyShortUrl = (shortCode: string, clickIds: string[]): ShortUrl => ({
+  id: shortCode,
+  originalUrl: `https://example.com/${shortCode}`,
+  shortCode,
+  shortUrl: `http://localhost:3000/${shortCode}`,
+  validityPeriod: 30,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  expiresAt: new Date('2024-01-01T00:30:00.000Z'),
+  clickCount: clickIds.length,
+  clicks: clickIds.map(id => ({ id, timestamp: new Date('2024-01-01T00:10:00.000Z'), source: 'direct', location: 'Unknown' }))
+});
+
+const readAll = <T,>(database: IDBDatabase, storeName: string): Promise<T[]> =>
+  runTransaction(database, [storeName], 'readonly', transaction =>
+    requestResult<T[]>(transaction.objectStore(storeName).getAll())
+  );
+
+describe('migrateStorage', () => {
+  let databaseCount = 0;
+  let database: IDBDatabase;
+
+  beforeEach(async () => {
+    database = await openDatabase(`migrations-${++databaseCount}`);
+    window.localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it('moves short URLs from localStorage to IndexedDB with clicks in their own store', async () => {
+    window.localStorage.setItem(LEGACY_KEY, JSON.stringify({
+      shortUrls: [legacyShortUrl('abc', ['c1', 'c2']), legacyShortUrl('def', [])],
+      lastUpdated: '2024-01-01T00:20:00.000Z',
+      version: '1'
+    }));
+
+    await migrateStorage({ database, legacyKey: LEGACY_KEY });
+
+    const shortUrls = await readAll<Record<string, unknown>>(database, SHORT_URL_STORE);
+    expect(shortUrls.map(shortUrl => shortUrl.shortCode)).toEqual(['abc', 'def']);
+    expect(shortUrls[0]).not.toHaveProperty('clicks');
+    expect(shortUrls[0].createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+
+    const clicks = await readAll<Record<string, unknown>>(database, CLICK_STORE);
+    expect(clicks.map(click => [click.id, click.shortCode])).toEqual([['c1', 'abc'], ['c2', 'abc']]);
+
+    const meta = await runTransaction(database, [META_STORE], 'readonly', transaction =>
+      requestResult<Record<string, unknown> | undefined>(transaction.objectStore(META_STORE).get(STORAGE_META_KEY))
+    );
+    expect(meta?.version).toBe('2');
+    expect(window.localStorage.getItem(LEGACY_KEY)).toBeNull();
+    expect(logStorageMigration).toHaveBeenCalledWith('1', '2', true, expect.objectContaining({ shortUrls: 2, clicks: 2 }));
+  });
+
+  it('accepts the bare array format and gives clicks without an ID one', async () => {
+    const shortUrl = legacyShortUrl('abc', ['']);
+    window.localStorage.setItem(LEGACY_KEY, JSON.stringify([shortUrl]));
+
+    await migrateStorage({ database, legacyKey: LEGACY_KEY });
+
+    const clicks = await readAll<Record<string, unknown>>(database, CLICK_STORE);
+    expect(clicks).toHaveLength(1);
+    expect(clicks[0].id).toEqual(expect.any(String));
+    expect(clicks[0].id).not.toBe('');
+  });
+
+  it('runs only once, leaving later localStorage data alone', async () => {
+    await migrateStorage({ database, legacyKey: LEGACY_KEY });
+    expect(logStorageMigration).toHaveBeenCalledWith('1', '2', true, expect.objectContaining({ shortUrls: 0 }));
+
+    window.localStorage.setItem(LEGACY_KEY, JSON.stringify([legacyShortUrl('abc', [])]));
+    await migrateStorage({ database, legacyKey: LEGACY_KEY });
+
+    expect(logStorageMigration).toHaveBeenCalledTimes(1);
+    expect(await readAll(database, SHORT_URL_STORE)).toEqual([]);
+    expect(window.localStorage.getItem(LEGACY_KEY)).not.toBeNull();
+  });
+
+  it('keeps unreadable localStorage data in place', async () => {
+    window.localStorage.setItem(LEGACY_KEY, '{not json');
+
+    await migrateStorage({ database, legacyKey: LEGACY_KEY });
+
+    expect(window.localStorage.getItem(LEGACY_KEY)).toBe('{not json');
+    expect(await readAll(database, SHORT_URL_STORE)).toEqual([]);
+  });
+});
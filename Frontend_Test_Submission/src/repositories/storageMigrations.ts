@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ShortUrl, StorageData } from '../types';
+import { logError, logStorageMigration } from '../utils/logger';
+import { reviveShortUrl } from './shortUrlRepository';
+import {
+  CLICK_STORE,
+  META_STORE,
+  SHORT_URL_STORE,
+  STORAGE_META_KEY,
+  StorageMeta,
+  StoredClick,
+  requestResult,
+  runTransaction
+} from './indexedDb';
+
+// The original format: every short URL, clicks included, as JSON under one localStorage key
+export const LEGACY_STORAGE_VERSION = '1';
+
+export interface MigrationContext {
+  database: IDBDatabase;
+  /** localStorage key the original format was kept under */
+  legacyKey: string;
+}
+
+/**
+ * One step of the stored data format, applied when the recorded `StorageData` version is older
+ */
+export interface StorageMigration {
+  /** Version of the data once this migration has run */
+  version: string;
+  description: string;
+  /** Must be safe to run twice: the tab may close before the new version is recorded. Resolves with details to log. */
+  migrate(context: MigrationContext): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Read the localStorage format: a bare `ShortUrl[]`, or `StorageData` wrapping one. Dates are revived.
+ * Unreadable data is logged and left in place rather than deleted.
+ */
+export const readLegacyStorage = (legacyKey: string): StorageData | null => {
+  try {
+    const item = window.localStorage.getItem(legacyKey);
+    if (item === null) {
+      return null;
+    }
+
+    const parsed = JSON.parse(item) as ShortUrl[] | StorageData;
+    if (Array.isArray(parsed)) {
+      return { shortUrls: parsed.map(reviveShortUrl), lastUpdated: new Date(), version: LEGACY_STORAGE_VERSION };
+    }
+    return {
+      shortUrls: (parsed.shortUrls ?? []).map(reviveShortUrl),
+      lastUpdated: new Date(parsed.lastUpdated),
+      version: parsed.version || LEGACY_STORAGE_VERSION
+    };
+  } catch (error) {
+    logError(error as Error, `legacy storage read for key: ${legacyKey}`);
+    return null;
+  }
+};
+
+const moveToIndexedDb: StorageMigration = {
+  version: '2',
+  description: 'Move short URLs from localStorage to IndexedDB, with clicks in their own store',
+  async migrate({ database, legacyKey }) {
+    const legacy = readLegacyStorage(legacyKey);
+    if (!legacy) {
+      return { shortUrls: 0, clicks: 0 };
+    }
+
+    let clickCount = 0;
+    await runTransaction(database, [SHORT_URL_STORE, CLICK_STORE], 'readwrite', async transaction => {
+      const shortUrls = transaction.objectStore(SHORT_URL_STORE);
+      const clicks = transaction.objectStore(CLICK_STORE);
+      legacy.shortUrls.forEach(({ clicks: urlClicks, ...shortUrl }) => {
+        shortUrls.put(shortUrl);
+        urlClicks.forEach(click => {
+          const stored: StoredClick = { ...click, id: click.id || uuidv4(), shortCode: shortUrl.shortCode };
+          clicks.put(stored);
+          clickCount++;
+        });
+      });
+    });
+
+    // Free the quota only once everything is committed
+    window.localStorage.removeItem(legacyKey);
+    return { shortUrls: legacy.shortUrls.length, clicks: clickCount, legacyVersion: legacy.version };
+  }
+};
+
+// In version order; add new steps at the end
+const MIGRATIONS: StorageMigration[] = [moveToIndexedDb];
+
+const readStorageMeta = (database: IDBDatabase): Promise<StorageMeta | undefined> =>
+  runTransaction(database, [META_STORE], 'readonly', transaction =>
+    requestResult<StorageMeta | undefined>(transaction.objectStore(META_STORE).get(STORAGE_META_KEY))
+  );
+
+const writeStorageMeta = (database: IDBDatabase, version: string): Promise<void> =>
+  runTransaction(database, [META_STORE], 'readwrite', async transaction => {
+    const meta: StorageMeta = { key: STORAGE_META_KEY, version, lastUpdated: new Date() };
+    await requestResult(transaction.objectStore(META_STORE).put(meta));
+  });
+
+/**
+ * Bring the stored data up to the last migration's version, running each newer migration in turn and
+ * recording the version after every step. A database without a version record is treated
+ * as the localStorage format, so a fresh install simply finds nothing to move.
+ */
+export const migrateStorage = async (context: MigrationContext): Promise<void> => {
+  const meta = await readStorageMeta(context.database);
+  let version = meta?.version ?? LEGACY_STORAGE_VERSION;
+
+  for (const migration of MIGRATIONS) {
+    if (Number(migration.version) <= Number(version)) {
+      continue;
+    }
+
+    let details: Record<string, unknown>;
+    try {
+      details = await migration.migrate(context);
+    } catch (error) {
+      logStorageMigration(version, migration.version, false, { reason: (error as Error).message });
+      throw error;
+    }
+
+    await writeStorageMeta(context.database, migration.version);
+    logStorageMigration(version, migration.version, true, { description: migration.description, ...details });
+    version = migration.version;
+  }
+};
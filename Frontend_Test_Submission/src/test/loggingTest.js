@@ -1,21 +1,40 @@
-// Simple test to verify logging functionality
-import { initializeLogger, logUserAction, logPageLoad } from '../utils/logger';
+// Offline check of the logging helpers: entries are recorded in memory instead of being sent to the evaluation server
+import { createTestLogger } from '@logging-middleware/core/testing';
+import { setLogger, logUserAction, logPageLoad, logFormValidation } from '../utils/logger';
 
-// Initialize the logger
-const logger = initializeLogger();
+const runLoggingTest = async () => {
+  const logger = createTestLogger();
+  setLogger(logger);
 
-// Test basic logging functionality
-console.log('Testing logging functionality...');
+  console.log('Testing logging functionality...');
 
-// Test page load logging
-logPageLoad('TestPage', 123);
+  // Test page load logging
+  logPageLoad('TestPage', 123);
 
-// Test user action logging
-logUserAction('test_action', { testData: 'success' });
+  // Test user action logging
+  logUserAction('test_action', { testData: 'success' });
 
-// Test direct logger methods
-logger.info('component', 'Direct logger test - info level');
-logger.error('api', 'Direct logger test - error level');
-logger.debug('utils', 'Direct logger test - debug level');
+  // Test form validation logging
+  logFormValidation('TestForm', false, ['URL is required']);
 
-console.log('Logging tests completed. Check network tab for API calls to the logging server.'); 
\ No newline at end of file
+  // Test direct logger methods
+  logger.info('component', 'Direct logger test - info level');
+  logger.error('api', 'Direct logger test - error level');
+  logger.debug('utils', 'Direct logger test - debug level');
+
+  await logger.flush();
+
+  logger.expectLogged({ level: 'info', package: 'page', message: 'TestPage page loaded in 123ms' });
+  logger.expectLogged({ level: 'info', package: 'component', message: 'test_action', data: { testData: 'success' } });
+  logger.expectLogged({ level: 'warn', package: 'component', data: { formName: 'TestForm', isValid: false } });
+  logger.expectLogged({ level: 'error', package: 'api' });
+  logger.expectLogged({ level: 'debug', package: 'utils' });
+  logger.expectNotLogged({ level: 'fatal' });
+
+  setLogger(null);
+  console.log(`Logging tests completed: ${logger.entries.length} entries recorded.`);
+};
+
+runLoggingTest().catch(error => {
+  console.error('Logging tests failed:', error);
+});
@@ -1,4 +1,4 @@
-// URL Shortener Types
+// URL Shortener Types. The API types mirror Backend_Service/src/types.ts; keep them in step.
 export interface ShortUrl {
   id: string;
   originalUrl: string;
@@ -6,6 +6,7 @@ export interface ShortUrl {
   shortUrl: string;
   validityPeriod: number; // in minutes
   customShortcode?: string;
+  redirectType?: RedirectType; // status sent by the redirect server, 302 when unset
   createdAt: Date;
   expiresAt: Date;
   clickCount: number;
@@ -21,10 +22,14 @@ export interface ClickData {
   ipAddress?: string;
 }
 
+// 301 permanent (browsers cache it, so repeat visits skip the server), 302 found, 307 temporary
+export type RedirectType = 301 | 302 | 307;
+
 export interface CreateShortUrlRequest {
   originalUrl: string;
   validityPeriod?: number;
   customShortcode?: string;
+  redirectType?: RedirectType;
 }
 
 export interface CreateShortUrlResponse {
@@ -49,6 +54,7 @@ export interface UrlFormData {
   originalUrl: string;
   validityPeriod: number;
   customShortcode: string;
+  redirectType: RedirectType;
   isProcessing: boolean;
   result?: ShortUrl;
   error?: string;
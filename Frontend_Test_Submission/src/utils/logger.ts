@@ -1,54 +1,83 @@
-// Import the compiled logging middleware
-const loggingMiddleware = require('../logging-middleware/index');
-const { createFrontendLogger } = loggingMiddleware;
-
-// Type definition for Logger
-interface Logger {
-  log: (level: string, message: string, packageName: string, data?: any) => Promise<void>;
-  info: (message: string, packageName: string, data?: any) => Promise<void>;
-  warn: (message: string, packageName: string, data?: any) => Promise<void>;
-  error: (message: string, packageName: string, data?: any) => Promise<void>;
-  debug: (message: string, packageName: string, data?: any) => Promise<void>;
-}
+import { onCLS, onFCP, onINP, onLCP, onTTFB } from 'web-vitals';
+
+import {
+  ConsoleTransport,
+  createErrorReporter,
+  createFrontendLogger,
+  createLogger,
+  installBrowserErrorHandlers,
+  reportWebVitals,
+  ErrorReporter,
+  FrontendLoggerOptions,
+  Logger,
+  Span,
+  WebVitalsReporter
+} from '@logging-middleware/core';
 
 // Logger configuration
 const LOGGING_CONFIG = {
-  apiUrl: 'http://20.244.56.144/evaluation-service',
-  accessToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJNYXBDbGJpbXJPbXMweDRhU1pYWkcwbEliSzd0eFpKcTVqUzJkdHJIb2dpc2pKL3BQVnVQdk5GRnJTRXFnRGoyNG5iNjNhK3JueWJHRFpiNXVySFJNQUxxYUg1K1lROVZTdmJxZVRxaUpIVlhlemlMMWRqUGFOZjNOcG8xSndMcjBNNDBHSzVnMEJsd3VzY2QzQVJQS3VGTjJ5SGJ5ZlZYODdGRXdxK21yYlFtS0hxanltaXhNZ1UxT0ZLMGJkSUVyS3FYQ2hGNERmTEdLN3djNkkxTUpTcFl1UVVMdERwY0JNNGtQMlBsbTM1OGNBNXZBanpOSUdrbE1nOFZnd3lPbUJGOElJSUV4WkRzQlFBUWlXR0JTQWtoK2lPWTM2c2g4YUEzVjh6NzQ1WDZJL0psUW8zOHQzRnlkVHR4UWhtY3NodEozZUVyZlgweUEwTDVNTTJhOGY0IiwiaWF0IjoxNzQzNTc0MzQ0LCJleHAiOjE3NDM1OTQzNDR9.YApD98gq0IN_oWw7JMfmuUfK1m4hLTm7AIcLDcLAzVg'
+  // Point at a local collector (`npx logging-middleware serve`) with REACT_APP_LOGGING_API_URL=http://127.0.0.1:4000
+  apiUrl: process.env.REACT_APP_LOGGING_API_URL || 'http://20.244.56.144/evaluation-service',
+  // Endpoint issuing fresh log API tokens as { access_token }; without it the static token below is used
+  tokenUrl: process.env.REACT_APP_LOGGING_TOKEN_URL,
+  accessToken: process.env.REACT_APP_LOGGING_ACCESS_TOKEN || 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJNYXBDbGJpbXJPbXMweDRhU1pYWkcwbEliSzd0eFpKcTVqUzJkdHJIb2dpc2pKL3BQVnVQdk5GRnJTRXFnRGoyNG5iNjNhK3JueWJHRFpiNXVySFJNQUxxYUg1K1lROVZTdmJxZVRxaUpIVlhlemlMMWRqUGFOZjNOcG8xSndMcjBNNDBHSzVnMEJsd3VzY2QzQVJQS3VGTjJ5SGJ5ZlZYODdGRXdxK21yYlFtS0hxanltaXhNZ1UxT0ZLMGJkSUVyS3FYQ2hGNERmTEdLN3djNkkxTUpTcFl1UVVMdERwY0JNNGtQMlBsbTM1OGNBNXZBanpOSUdrbE1nOFZnd3lPbUJGOElJSUV4WkRzQlFBUWlXR0JTQWtoK2lPWTM2c2g4YUEzVjh6NzQ1WDZJL0psUW8zOHQzRnlkVHR4UWhtY3NodEozZUVyZlgweUEwTDVNTTJhOGY0IiwiaWF0IjoxNzQzNTc0MzQ0LCJleHAiOjE3NDM1OTQzNDR9.YApD98gq0IN_oWw7JMfmuUfK1m4hLTm7AIcLDcLAzVg'
+};
+
+// Preset options layered on top of the frontend defaults
+const LOGGER_OPTIONS: FrontendLoggerOptions = {
+  // Destination URLs and user agents can carry personal data; hash them so records still correlate
+  redaction: {
+    keys: [
+      { key: 'originalUrl', action: 'hash' },
+      { key: 'userAgent', action: 'hash' }
+    ]
+  },
+  // Form validation and storage logging fire on every keystroke and storage access; keep a
+  // sample of the debug noise and cap bursts, with periodic summaries of what was dropped
+  sampling: {
+    packageSampleRates: { utils: { debug: 0.1 } },
+    packageRateLimits: {
+      component: { ratePerSecond: 5, burst: 20 },
+      utils: { ratePerSecond: 2, burst: 10 }
+    },
+    summaryInterval: 30000
+  }
 };
 
-// Create the logger instance
-let logger: Logger | null = null;
+// Fetch a log API token; the middleware calls this before the current token expires and after a 401/403
+const getLoggingAccessToken = async (): Promise<string> => {
+  if (!LOGGING_CONFIG.tokenUrl) {
+    return LOGGING_CONFIG.accessToken;
+  }
 
-// Fallback logger for when middleware fails
-const fallbackLogger: Logger = {
-  log: async (level: string, message: string, packageName: string, data?: any) => { 
-    console.log(`[${level.toUpperCase()}] [${packageName}] ${message}`, data || ''); 
-  },
-  info: async (message: string, packageName: string, data?: any) => { 
-    console.info(`[INFO] [${packageName}] ${message}`, data || ''); 
-  },
-  warn: async (message: string, packageName: string, data?: any) => { 
-    console.warn(`[WARN] [${packageName}] ${message}`, data || ''); 
-  },
-  error: async (message: string, packageName: string, data?: any) => { 
-    console.error(`[ERROR] [${packageName}] ${message}`, data || ''); 
-  },
-  debug: async (message: string, packageName: string, data?: any) => { 
-    console.debug(`[DEBUG] [${packageName}] ${message}`, data || ''); 
+  const response = await fetch(LOGGING_CONFIG.tokenUrl, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`Token request failed with status ${response.status}`);
   }
+  const body = await response.json();
+  return body.access_token ?? body.accessToken;
 };
 
+// Create the logger instance
+let logger: Logger | null = null;
+
+// Console-only logger for when the preset cannot be created, e.g. without a usable token
+const createFallbackLogger = (): Logger => createLogger({
+  defaultStack: 'frontend',
+  transports: [new ConsoleTransport()]
+});
+
 export const initializeLogger = (): Logger => {
   if (!logger) {
     try {
       logger = createFrontendLogger(
         LOGGING_CONFIG.apiUrl,
-        LOGGING_CONFIG.accessToken
+        getLoggingAccessToken,
+        LOGGER_OPTIONS
       );
     } catch (error) {
       console.warn('Failed to initialize logging middleware, using fallback logger:', error);
-      logger = fallbackLogger;
+      logger = createFallbackLogger();
     }
   }
   return logger!; // Non-null assertion since we initialize logger above
@@ -61,79 +90,134 @@ export const getLogger = (): Logger => {
   return logger;
 };
 
+let errorReporter: ErrorReporter | null = null;
+
+// Replace the shared logger, e.g. with createTestLogger() in tests; pass null to go back to the default
+export const setLogger = (instance: Logger | null): void => {
+  logger = instance;
+  errorReporter = null;
+};
+
+export const getErrorReporter = (): ErrorReporter => {
+  if (!errorReporter) {
+    errorReporter = createErrorReporter({ logger: getLogger() });
+  }
+  return errorReporter;
+};
+
+// Opt-in capture of window.onerror and unhandled promise rejections; returns an uninstall function
+export const installGlobalErrorLogging = (): (() => void) => {
+  return installBrowserErrorHandlers(getErrorReporter());
+};
+
+let webVitalsReporter: WebVitalsReporter | null = null;
+
+// Log LCP, CLS, INP, FCP and TTFB under the 'page' package; call once at startup
+export const startWebVitalsReporting = (): WebVitalsReporter => {
+  if (!webVitalsReporter) {
+    webVitalsReporter = reportWebVitals({
+      logger: getLogger(),
+      sources: { onCLS, onFCP, onINP, onLCP, onTTFB }
+    });
+  }
+  return webVitalsReporter;
+};
+
+// Tell web vitals reporting which route is active; use route patterns rather than concrete paths
+export const setWebVitalsRoute = (route: string): void => {
+  webVitalsReporter?.setRoute(route);
+};
+
+// Logger that tags every entry with the component name and any extra bound fields
+export const createComponentLogger = (component: string, bindings?: Record<string, unknown>): Logger => {
+  return getLogger().child({ component, ...bindings });
+};
+
 // Convenience logging functions with proper package categorization
 export const logPageLoad = (pageName: string, loadTime?: number) => {
   const message = loadTime 
     ? `${pageName} page loaded in ${loadTime}ms`
     : `${pageName} page loaded`;
-  getLogger().info(message, 'page');
+  getLogger().info('page', message, { data: { pageName, loadTime } });
+};
+
+// Timer for a page's first render until it has mounted; call end() from the mount effect
+export const startPageLoadTimer = (pageName: string): Span => {
+  return getLogger().startTimer(`${pageName} page load`, { package: 'page', data: { pageName } });
 };
 
-export const logUserAction = (action: string, details?: any) => {
-  const message = details 
-    ? `User action: ${action} - ${JSON.stringify(details)}`
-    : `User action: ${action}`;
-  getLogger().info(message, 'component', details);
+export const logUserAction = (action: string, details?: Record<string, unknown>) => {
+  const message = `User action: ${action}`;
+  getLogger().info('component', message, { data: { action, ...details } });
 };
 
 export const logApiCall = (endpoint: string, method: string, status?: number) => {
   const message = status 
     ? `API ${method} ${endpoint} - Status: ${status}`
     : `API ${method} ${endpoint} initiated`;
-  getLogger().info(message, 'api', { endpoint, method, status });
+  getLogger().info('api', message, { data: { endpoint, method, status } });
 };
 
 export const logError = (error: Error, context: string) => {
   const message = `Error in ${context}: ${error.message}`;
-  getLogger().error(message, 'component', { error: error.stack, context });
+  getLogger().error('component', message, { error, data: { context } });
 };
 
 export const logFormValidation = (formName: string, isValid: boolean, errors?: string[]) => {
   const message = isValid 
     ? `${formName} form validation passed`
     : `${formName} form validation failed: ${errors?.join(', ') || 'Unknown errors'}`;
-  getLogger().warn(message, 'component', { formName, isValid, errors });
+  getLogger().warn('component', message, { data: { formName, isValid, errors } });
 };
 
 export const logUrlShortening = (originalUrl: string, shortCode: string) => {
-  const message = `URL shortened successfully: ${originalUrl} -> ${shortCode}`;
-  getLogger().info(message, 'api', { originalUrl, shortCode });
+  const message = `URL shortened successfully: ${shortCode}`;
+  getLogger().info('api', message, { data: { originalUrl, shortCode } });
 };
 
 export const logUrlClick = (shortCode: string, originalUrl: string) => {
-  const message = `Short URL clicked: ${shortCode} -> ${originalUrl}`;
-  getLogger().info(message, 'component', { shortCode, originalUrl });
+  const message = `Short URL clicked: ${shortCode}`;
+  getLogger().info('component', message, { data: { shortCode, originalUrl } });
 };
 
-export const logStateChange = (component: string, state: any) => {
-  const message = `State change in ${component}: ${JSON.stringify(state)}`;
-  getLogger().debug('state', message);
+export const logStateChange = (component: string, state: Record<string, unknown>) => {
+  const message = `State change in ${component}`;
+  getLogger().debug('state', message, { data: { component, state } });
 };
 
 export const logPerformance = (metric: string, value: number, unit: string = 'ms') => {
   const message = `Performance metric: ${metric} = ${value}${unit}`;
-  getLogger().info('component', message);
+  getLogger().info('component', message, { data: { metric, value, unit } });
 };
 
 export const logAuthAction = (action: string, success: boolean) => {
   const message = success 
     ? `Authentication action successful: ${action}`
     : `Authentication action failed: ${action}`;
-  getLogger().info('auth', message);
+  getLogger().info('auth', message, { data: { action, success } });
 };
 
 export const logStorageOperation = (operation: string, key: string, success: boolean) => {
   const message = success
     ? `Storage ${operation} successful for key: ${key}`
     : `Storage ${operation} failed for key: ${key}`;
-  getLogger().debug('utils', message);
+  getLogger().debug('utils', message, { data: { operation, key, success } });
+};
+
+export const logStorageMigration = (fromVersion: string, toVersion: string, success: boolean, details?: Record<string, unknown>) => {
+  const data = { fromVersion, toVersion, success, ...details };
+  if (success) {
+    getLogger().info('utils', `Storage migrated from version ${fromVersion} to ${toVersion}`, { data });
+  } else {
+    getLogger().error('utils', `Storage migration from version ${fromVersion} to ${toVersion} failed`, { data });
+  }
 };
 
-export const logConfigLoad = (configName: string, success: boolean) => {
+export const logConfigLoad =(configName: string, success: boolean) => {
   const message = success
     ? `Configuration loaded successfully: ${configName}`
     : `Failed to load configuration: ${configName}`;
-  getLogger().info(message, 'config', { configName, success });
+  getLogger().info('config', message, { data: { configName, success } });
 };
 
 // Export the logger instance for direct use when needed
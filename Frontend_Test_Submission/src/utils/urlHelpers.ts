@@ -92,7 +92,7 @@ export const validateShortcode = (shortcode: string): { isValid: boolean; errors
   }
 
   // Check for reserved words
-  const reservedWords = ['api', 'admin', 'www', 'app', 'shortener', 'statistics', 'stats', 'analytics'];
+  const reservedWords = ['api', 'admin', 'www', 'app', 'shortener', 'statistics', 'stats', 'analytics', 'health'];
   if (reservedWords.includes(trimmed.toLowerCase())) {
     errors.push('This shortcode is reserved and cannot be used');
   }
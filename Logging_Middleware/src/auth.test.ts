@@ -0,0 +1,63 @@
+import { TokenManager, decodeJwtExpiry } from './auth';
+
+const jwt = (claims: Record<string, unknown>) =>
+  `eyJhbGciOiJIUzI1NiJ9.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+
+describe('decodeJwtExpiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(decodeJwtExpiry(jwt({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  it('ignores tokens without an expiry or that are not JWTs', () => {
+    expect(decodeJwtExpiry(jwt({ sub: 'user' }))).toBeUndefined();
+    expect(decodeJwtExpiry('opaque-token')).toBeUndefined();
+    expect(decodeJwtExpiry('a.not-json.b')).toBeUndefined();
+  });
+});
+
+describe('TokenManager', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('fetches a token on first use and shares one request between callers', async () => {
+    const getToken = jest.fn().mockResolvedValue('token-1');
+    const manager = new TokenManager({ getToken });
+
+    await expect(Promise.all([manager.getToken(), manager.getToken()])).resolves.toEqual(['token-1', 'token-1']);
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes the leeway before the token expires', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const getToken = jest.fn().mockResolvedValue('next');
+    const manager = new TokenManager({ getToken, initialToken: jwt({ exp: 600 }), refreshLeeway: 60000 });
+
+    jest.advanceTimersByTime(539999);
+    expect(getToken).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(getToken).toHaveBeenCalledTimes(1);
+
+    await expect(manager.getToken()).resolves.toBe('next');
+    manager.close();
+  });
+
+  it('refreshes after a rejection unless the token was already replaced', async () => {
+    const getToken = jest.fn().mockResolvedValue('fresh');
+    const manager = new TokenManager({ getToken, initialToken: 'stale' });
+
+    await expect(manager.refreshAfterRejection('stale')).resolves.toBe('fresh');
+    await expect(manager.refreshAfterRejection('stale')).resolves.toBe('fresh');
+    expect(getToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the previous token when the provider fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const manager = new TokenManager({ getToken: () => Promise.reject(new Error('offline')), initialToken: 'current' });
+
+      await expect(manager.refresh()).resolves.toBe('current');
+      expect(warn).toHaveBeenCalledWith('Failed to refresh the logging API access token:', expect.any(Error));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
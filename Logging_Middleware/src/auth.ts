@@ -0,0 +1,203 @@
+/**
+ * Supplies an access token for the log API, e.g. by calling an auth endpoint.
+ * Called on startup, shortly before the current token expires, and after a 401/403.
+ */
+export type TokenProvider = () => string | Promise<string>;
+
+/**
+ * Options for the token manager
+ */
+export interface TokenManagerOptions {
+  getToken: TokenProvider;
+  /** Token to use until the provider is first called */
+  initialToken?: string;
+  /** Refresh this many milliseconds before the token expires (default 60s) */
+  refreshLeeway?: number;
+  /** Minimum milliseconds between refreshes that were not forced by a rejection (default 30s) */
+  minRefreshInterval?: number;
+  /** Print refresh failures and expired tokens to the console (default true) */
+  logFailures?: boolean;
+}
+
+/**
+ * Read the `exp` claim of a JWT as epoch milliseconds.
+ * Returns undefined for tokens that are not JWTs or carry no expiry; the signature is not verified.
+ */
+export function decodeJwtExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload || typeof atob !== 'function') {
+    return undefined;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Longest delay setTimeout supports; longer delays fire immediately
+ */
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Keeps the log API token fresh. Refreshes are scheduled ahead of the JWT expiry, and
+ * concurrent callers share one in-flight refresh, so entries sent during a refresh wait
+ * for the new token instead of failing with a 401.
+ */
+export class TokenManager {
+  private options: TokenManagerOptions;
+  private token: string | undefined;
+  private expiresAt: number | undefined;
+  private activeRefresh: Promise<string | undefined> | null = null;
+  private lastRefreshAt = 0;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private warnedExpiry: number | undefined;
+
+  constructor(options: TokenManagerOptions) {
+    this.options = options;
+    if (options.initialToken) {
+      this.setToken(options.initialToken);
+    }
+  }
+
+  /**
+   * Get a usable token, refreshing first when there is none or it is about to expire.
+   * Waits for a refresh that is already in flight.
+   */
+  async getToken(): Promise<string | undefined> {
+    if (this.activeRefresh) {
+      return this.activeRefresh;
+    }
+
+    const recentlyRefreshed = Date.now() - this.lastRefreshAt < (this.options.minRefreshInterval ?? 30000);
+    if (!this.token || (this.isExpiring() && !recentlyRefreshed)) {
+      return this.refresh();
+    }
+
+    if (this.isExpired()) {
+      this.warnExpired();
+    }
+    return this.token;
+  }
+
+  /**
+   * Ask the provider for a new token. Concurrent calls share one request.
+   * Resolves with the previous token when the provider fails.
+   */
+  refresh(): Promise<string | undefined> {
+    if (!this.activeRefresh) {
+      this.activeRefresh = this.fetchToken().finally(() => {
+        this.activeRefresh = null;
+      });
+    }
+    return this.activeRefresh;
+  }
+
+  /**
+   * Get a token to retry with after `rejectedToken` was refused. Refreshes unless another
+   * caller already replaced the rejected token.
+   */
+  async refreshAfterRejection(rejectedToken: string | undefined): Promise<string | undefined> {
+    if (this.activeRefresh) {
+      return this.activeRefresh;
+    }
+    return this.token !== rejectedToken ? this.token : this.refresh();
+  }
+
+  /**
+   * Get the current token without refreshing, for synchronous senders such as page-unload delivery
+   */
+  peekToken(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Replace the token directly, e.g. after the application logged in again
+   */
+  setToken(token: string): void {
+    this.token = token;
+    this.expiresAt = decodeJwtExpiry(token);
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Epoch milliseconds when the current token expires, if it is a JWT with an `exp` claim
+   */
+  getExpiry(): number | undefined {
+    return this.expiresAt;
+  }
+
+  /**
+   * Whether a refresh is in flight
+   */
+  isRefreshing(): boolean {
+    return this.activeRefresh !== null;
+  }
+
+  /**
+   * Cancel the scheduled refresh
+   */
+  close(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private async fetchToken(): Promise<string | undefined> {
+    this.lastRefreshAt = Date.now();
+    try {
+      const token = await this.options.getToken();
+      if (token) {
+        this.setToken(token);
+      }
+    } catch (error) {
+      if (this.options.logFailures ?? true) {
+        console.warn('Failed to refresh the logging API access token:', error);
+      }
+    }
+    return this.token;
+  }
+
+  private isExpiring(): boolean {
+    return this.expiresAt !== undefined && Date.now() >= this.expiresAt - (this.options.refreshLeeway ?? 60000);
+  }
+
+  private isExpired(): boolean {
+    return this.expiresAt !== undefined && Date.now() >= this.expiresAt;
+  }
+
+  private warnExpired(): void {
+    if ((this.options.logFailures ?? true) && this.warnedExpiry !== this.expiresAt) {
+      this.warnedExpiry = this.expiresAt;
+      console.warn(`Logging API access token expired at ${new Date(this.expiresAt!).toISOString()} and no newer token is available`);
+    }
+  }
+
+  /**
+   * Refresh ahead of expiry. Tokens that are already inside the leeway are refreshed
+   * lazily by the next getToken() instead, so a provider returning stale tokens cannot spin.
+   */
+  private scheduleRefresh(): void {
+    this.close();
+    if (this.expiresAt === undefined) {
+      return;
+    }
+
+    const delay = this.expiresAt - (this.options.refreshLeeway ?? 60000) - Date.now();
+    if (delay <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refresh();
+    }, Math.min(delay, MAX_TIMER_DELAY));
+    // Do not keep a Node process alive just to refresh the token
+    (this.refreshTimer as { unref?: () => void }).unref?.();
+  }
+}
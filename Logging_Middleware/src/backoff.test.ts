@@ -0,0 +1,45 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { exponentialBackoff, getRetryAfterDelay, linearBackoff, retryAfterBackoff } from './backoff';
+
+const responseError = (headers: Record<string, string>) =>
+  new AxiosError('Too many requests', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status: 429,
+    headers
+  } as unknown as AxiosResponse);
+
+describe('backoff strategies', () => {
+  it('grows linearly', () => {
+    const backoff = linearBackoff(100);
+    expect([1, 2, 3].map(attempt => backoff(attempt))).toEqual([100, 200, 300]);
+  });
+
+  it('doubles up to the maximum without jitter', () => {
+    const backoff = exponentialBackoff({ baseDelay: 100, maxDelay: 350, jitter: 'none' });
+    expect([1, 2, 3, 4].map(attempt => backoff(attempt))).toEqual([100, 200, 350, 350]);
+  });
+
+  it('waits a random time up to the computed delay with full jitter', () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    try {
+      expect(exponentialBackoff({ baseDelay: 100 })(3)).toBe(200);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    expect(getRetryAfterDelay(responseError({ 'retry-after': '2' }))).toBe(2000);
+    const date = new Date(Date.now() + 60000).toUTCString();
+    expect(getRetryAfterDelay(responseError({ 'retry-after': date }))).toBeGreaterThan(50000);
+    expect(getRetryAfterDelay(responseError({}))).toBeUndefined();
+    expect(getRetryAfterDelay(new Error('Network down'))).toBeUndefined();
+  });
+
+  it('honours Retry-After, capped, and otherwise defers to the fallback', () => {
+    const backoff = retryAfterBackoff(linearBackoff(100), 5000);
+
+    expect(backoff(1, responseError({ 'retry-after': '3' }))).toBe(3000);
+    expect(backoff(1, responseError({ 'retry-after': '600' }))).toBe(5000);
+    expect(backoff(2, new Error('Network down'))).toBe(200);
+  });
+});
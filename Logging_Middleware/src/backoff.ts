@@ -0,0 +1,72 @@
+import axios from 'axios';
+
+/**
+ * Decides how long to wait after a failed attempt (1-based) before the next one
+ */
+export type BackoffStrategy = (attempt: number, error?: unknown) => number;
+
+/**
+ * Wait `baseDelay * attempt`: 1s, 2s, 3s, ... for a 1s base
+ */
+export function linearBackoff(baseDelay: number): BackoffStrategy {
+  return attempt => baseDelay * attempt;
+}
+
+/**
+ * Options for exponential backoff
+ */
+export interface ExponentialBackoffOptions {
+  baseDelay: number;
+  /** Upper bound for a single wait (default 30s) */
+  maxDelay?: number;
+  /**
+   * 'full' waits a random time between 0 and the computed delay so that clients
+   * which failed together do not retry together (default 'full')
+   */
+  jitter?: 'full' | 'none';
+}
+
+/**
+ * Wait `baseDelay * 2^(attempt - 1)`, capped at maxDelay, with optional full jitter
+ */
+export function exponentialBackoff(options: ExponentialBackoffOptions): BackoffStrategy {
+  const { baseDelay, maxDelay = 30000, jitter = 'full' } = options;
+
+  return attempt => {
+    const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    return jitter === 'full' ? Math.random() * delay : delay;
+  };
+}
+
+/**
+ * Read a `Retry-After` header (seconds or HTTP date) from a failed axios request, in milliseconds
+ */
+export function getRetryAfterDelay(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return undefined;
+  }
+
+  const header = error.response.headers?.['retry-after'];
+  if (typeof header !== 'string' || header.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Honour the server's `Retry-After` header when present, otherwise defer to `fallback`.
+ * The server's value is capped at maxDelay so a misconfigured header cannot stall logging.
+ */
+export function retryAfterBackoff(fallback: BackoffStrategy, maxDelay: number = 60000): BackoffStrategy {
+  return (attempt, error) => {
+    const retryAfter = getRetryAfterDelay(error);
+    return retryAfter !== undefined ? Math.min(retryAfter, maxDelay) : fallback(attempt, error);
+  };
+}
@@ -0,0 +1,49 @@
+import { CircuitBreaker } from './circuitBreaker';
+import { createFrontendLogger } from './factory';
+import { createTestLogger } from './testing';
+
+describe('ChildLogger', () => {
+  it('adds bound fields to every entry, letting call data win', async () => {
+    const logger = createTestLogger();
+    const child = logger.child({ component: 'RedirectHandler', shortCode: 'abc' });
+
+    await child.info('component', 'Redirecting', { data: { shortCode: 'override', delay: 3 } });
+
+    expect(logger.entries[0].context?.data).toEqual({ component: 'RedirectHandler', shortCode: 'override', delay: 3 });
+    expect(logger.entries[0].context?.correlationId).toBe(logger.getCorrelationId());
+  });
+
+  it('uses a bound correlation ID instead of the root one, and passes it to grandchildren', async () => {
+    const logger = createTestLogger();
+    const request = logger.child({ correlationId: 'request-1', route: '/api/urls' });
+    const grandchild = request.child({ step: 'validate' });
+
+    await grandchild.warn('api', 'Invalid body');
+
+    expect(logger.entries[0].context).toMatchObject({
+      correlationId: 'request-1',
+      data: { route: '/api/urls', step: 'validate' }
+    });
+    expect(logger.entries[0].context?.data).not.toHaveProperty('correlationId');
+  });
+
+  it('applies level changes to the root logger', async () => {
+    const logger = createTestLogger();
+    const child = logger.child({ component: 'Form' });
+
+    child.setLevel('error');
+    await child.warn('component', 'Ignored');
+    await logger.warn('component', 'Also ignored');
+
+    expect(logger.entries).toHaveLength(0);
+  });
+
+  it('exposes the root logger\'s circuit breaker', async () => {
+    const circuitBreaker = new CircuitBreaker();
+    const logger = createFrontendLogger('http://127.0.0.1:1', 'token', { circuitBreaker, enableConsoleLog: false, outbox: null });
+
+    expect(logger.getCircuitBreaker()).toBe(circuitBreaker);
+    expect(logger.child({ component: 'Form' }).getCircuitBreaker()).toBe(circuitBreaker);
+    await logger.close();
+  });
+});
@@ -0,0 +1,122 @@
+import type { CircuitBreaker } from './circuitBreaker';
+import { LoggerStats } from './stats';
+import { Span, startSpan, timeOperation, TimerOptions } from './timing';
+import { Logger, LogBindings, LogContext, LogLevel, LogPackage, LogResponse, LogStack, LevelScope } from './types';
+
+/**
+ * Logger that adds bound fields, and optionally its own correlation ID, to every entry
+ * before handing it to the root logger. Level changes apply to the root logger.
+ */
+export class ChildLogger implements Logger {
+  private root: Logger;
+  private defaultStack: LogStack;
+  private bindings: Record<string, unknown>;
+  private correlationId?: string;
+
+  constructor(root: Logger, defaultStack: LogStack, bindings: LogBindings, correlationId?: string) {
+    const { correlationId: boundCorrelationId, ...fields } = bindings;
+    this.root = root;
+    this.defaultStack = defaultStack;
+    this.bindings = fields;
+    this.correlationId = boundCorrelationId ?? correlationId;
+  }
+
+  async log(
+    stack: LogStack,
+    level: LogLevel,
+    packageName: LogPackage,
+    message: string,
+    context?: LogContext
+  ): Promise<LogResponse | null> {
+    return this.root.log(stack, level, packageName, message, {
+      ...context,
+      correlationId: context?.correlationId ?? this.correlationId,
+      data: { ...this.bindings, ...context?.data }
+    });
+  }
+
+  async debug(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.defaultStack, 'debug', packageName, message, context);
+  }
+
+  async info(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.defaultStack, 'info', packageName, message, context);
+  }
+
+  async warn(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.defaultStack, 'warn', packageName, message, context);
+  }
+
+  async error(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.defaultStack, 'error', packageName, message, context);
+  }
+
+  async fatal(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.defaultStack, 'fatal', packageName, message, context);
+  }
+
+  setLevel(level: LogLevel, scope?: LevelScope): void {
+    this.root.setLevel(level, scope);
+  }
+
+  /**
+   * Create a grandchild that keeps these bindings and adds more
+   */
+  child(bindings: LogBindings): Logger {
+    return new ChildLogger(
+      this.root,
+      this.defaultStack,
+      { ...this.bindings, ...bindings },
+      bindings.correlationId ?? this.correlationId
+    );
+  }
+
+  /**
+   * Start a timer that logs duration, outcome and span IDs when ended.
+   * Nest spans with `span.startTimer()` or the `parent` option.
+   */
+  startTimer(name: string, options?: TimerOptions): Span {
+    return startSpan(this, name, options);
+  }
+
+  /**
+   * Time an operation and log its duration and outcome; errors are logged and rethrown
+   */
+  time<T>(name: string, operation: (span: Span) => T | Promise<T>, options?: TimerOptions): Promise<T> {
+    return timeOperation(this, name, operation, options);
+  }
+  /**
+   * Get the root logger's stats, which include this logger's entries
+   */
+  getStats(): LoggerStats {
+    return this.root.getStats();
+  }
+
+  /**
+   * Get the root logger's circuit breaker
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.root.getCircuitBreaker();
+  }
+
+  /**
+   * Flush the root logger
+   */
+  flush(): Promise<void> {
+    return this.root.flush();
+  }
+
+  /**
+   * Close the root logger, which stops every logger derived from it
+   */
+  close(): Promise<void> {
+    return this.root.close();
+  }
+
+  /**
+   * Get the fields this logger adds to every entry
+   */
+  getBindings(): Record<string, unknown> {
+    return { ...this.bindings };
+  }
+}
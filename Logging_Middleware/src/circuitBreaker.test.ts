@@ -0,0 +1,67 @@
+import { CircuitBreaker, CircuitStateChange } from './circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('opens after the failure threshold and refuses requests while open', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.isDegraded()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getMetrics()).toMatchObject({ totalFailures: 2, totalRejected: 1 });
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets a single probe through after the reset timeout', () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the probe fails', () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('reports state changes until unsubscribed', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const changes: CircuitStateChange[] = [];
+    const unsubscribe = breaker.onStateChange(change => changes.push(change));
+
+    breaker.recordFailure();
+    unsubscribe();
+    breaker.recordSuccess();
+
+    expect(changes).toEqual([{ from: 'closed', to: 'open', consecutiveFailures: 1 }]);
+  });
+});
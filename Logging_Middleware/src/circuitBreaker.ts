@@ -0,0 +1,150 @@
+/**
+ * Circuit breaker states: requests flow when closed, are refused when open,
+ * and a single probe request is let through when half-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Emitted whenever the breaker changes state
+ */
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures at the time of the change */
+  consecutiveFailures: number;
+}
+
+/**
+ * Options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before a probe is allowed (default 30s) */
+  resetTimeout?: number;
+}
+
+/**
+ * Counters describing the breaker, for health displays
+ */
+export interface CircuitBreakerMetrics {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  /** Requests refused because the circuit was open */
+  totalRejected: number;
+  /** Epoch milliseconds when the circuit last opened */
+  openedAt: number | null;
+}
+
+/**
+ * Shared breaker for the log API. After `failureThreshold` consecutive failures it stops
+ * all requests for `resetTimeout`, then lets one probe through: success closes the circuit,
+ * failure reopens it.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalSuccesses = 0;
+  private totalFailures = 0;
+  private totalRejected = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private listeners = new Set<(change: CircuitStateChange) => void>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+  }
+
+  /**
+   * Ask whether a request may be sent now. Moves an expired open circuit to half-open
+   * and reserves the probe for the caller.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    this.totalRejected++;
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * True while logs are not reaching the server, so the app can show a degraded state
+   */
+  isDegraded(): boolean {
+    return this.state !== 'closed';
+  }
+
+  getMetrics(): CircuitBreakerMetrics {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalSuccesses: this.totalSuccesses,
+      totalFailures: this.totalFailures,
+      totalRejected: this.totalRejected,
+      openedAt: this.openedAt
+    };
+  }
+
+  /**
+   * Subscribe to state changes. Returns a function that unsubscribes.
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private transition(to: CircuitState): void {
+    const change: CircuitStateChange = { from: this.state, to, consecutiveFailures: this.consecutiveFailures };
+    this.state = to;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Circuit breaker listener failed:', error);
+      }
+    });
+  }
+}
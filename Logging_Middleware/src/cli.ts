@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+// Command-line entry point: run a local log collector and query what it stored (Node only)
+import { LogLevel, LogPackage, LogStack } from './types';
+import { isLogLevel } from './levels';
+import { isLogPackage, isLogStack } from './validation';
+import { LogCollector } from './collector/server';
+import { JsonLinesLogStore, LogFilter, StoredLogEntry, entryTime, parseTimeBound } from './collector/store';
+
+const DEFAULT_FILE = 'logs/collected.jsonl';
+
+const USAGE = `Usage: logging-middleware <command> [options]
+
+Commands:
+  serve                 Accept POST /logs and /logs/bulk and store entries on disk
+  query                 Print stored entries matching the filters
+  tail                  Print the last matching entries, then follow new ones
+
+Common options:
+  --file <path>         JSON lines file holding the entries (default ${DEFAULT_FILE})
+
+serve options:
+  --port <port>         Port to listen on (default 4000)
+  --host <host>         Interface to bind (default 127.0.0.1)
+  --token <token>       Require this bearer token
+  --quiet               Do not echo received entries
+
+query and tail options:
+  --stack <list>        Comma-separated stacks, e.g. frontend
+  --level <list>        Comma-separated levels, e.g. warn,error
+  --min-level <level>   Entries at or above this level
+  --package <list>      Comma-separated packages, e.g. api,component
+  --since <time>        Duration such as 15m, 2h or 1d, or an ISO date
+  --until <time>        Same formats as --since
+  --text <text>         Case-insensitive text in the message, data or error
+  --limit <n>           Most recent entries to print (query: all, tail: 10)
+  --json                One JSON object per line instead of text
+`;
+
+type Flags = Record<string, string | true>;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): { command?: string; flags: Flags } {
+  const flags: Flags = {};
+  let command: string | undefined;
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      if (command) {
+        throw new UsageError(`Unexpected argument "${arg}"`);
+      }
+      command = arg;
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (argv[index + 1] !== undefined && !argv[index + 1].startsWith('--')) {
+      flags[name] = argv[++index];
+    } else {
+      flags[name] = true;
+    }
+  }
+  return { command, flags };
+}
+
+function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) {
+    throw new UsageError(`--${name} needs a value`);
+  }
+  return value;
+}
+
+function numberFlag(flags: Flags, name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+function listFlag<T extends string>(flags: Flags, name: string, isValid: (value: unknown) => value is T): T[] | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(',').map(item => {
+    const trimmed = item.trim().toLowerCase();
+    if (!isValid(trimmed)) {
+      throw new UsageError(`Unknown ${name} "${item}"`);
+    }
+    return trimmed;
+  });
+}
+
+function readFilter(flags: Flags): LogFilter {
+  const minLevel = stringFlag(flags, 'min-level');
+  if (minLevel !== undefined && !isLogLevel(minLevel)) {
+    throw new UsageError(`Unknown level "${minLevel}"`);
+  }
+  const since = stringFlag(flags, 'since');
+  const until = stringFlag(flags, 'until');
+
+  return {
+    stacks: listFlag<LogStack>(flags, 'stack', isLogStack),
+    levels: listFlag<LogLevel>(flags, 'level', isLogLevel),
+    minLevel,
+    packages: listFlag<LogPackage>(flags, 'package', isLogPackage),
+    since: since === undefined ? undefined : parseTimeBound(since),
+    until: until === undefined ? undefined : parseTimeBound(until),
+    text: stringFlag(flags, 'text')
+  };
+}
+
+function formatEntry(entry: StoredLogEntry, json: boolean): string {
+  if (json) {
+    return JSON.stringify(entry);
+  }
+
+  const parts = [
+    entryTime(entry).toISOString(),
+    entry.level.toUpperCase().padEnd(5),
+    `${entry.stack}/${entry.package}`,
+    entry.message
+  ];
+  if (entry.data && Object.keys(entry.data).length > 0) {
+    parts.push(JSON.stringify(entry.data));
+  }
+  if (entry.error) {
+    parts.push(`${entry.error.name}: ${entry.error.message}`);
+  }
+  return parts.join('  ');
+}
+
+async function serve(flags: Flags, store: JsonLinesLogStore): Promise<void> {
+  const quiet = flags.quiet === true;
+  const collector = new LogCollector({
+    store,
+    port: numberFlag(flags, 'port'),
+    host: stringFlag(flags, 'host'),
+    accessToken: stringFlag(flags, 'token'),
+    onEntries: quiet ? undefined : entries => entries.forEach(entry => console.log(formatEntry(entry, false)))
+  });
+
+  const url = await collector.start();
+  console.error(`Collecting logs at ${url} into ${store.filePath}`);
+  console.error(`Pass "${url}" as the apiUrl of createFrontendLogger or createBackendLogger`);
+
+  const shutdown = () => {
+    void collector.stop().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+async function query(flags: Flags, store: JsonLinesLogStore): Promise<void> {
+  const json = flags.json === true;
+  const entries = await store.read(readFilter(flags), numberFlag(flags, 'limit'));
+  entries.forEach(entry => console.log(formatEntry(entry, json)));
+}
+
+async function tail(flags: Flags, store: JsonLinesLogStore): Promise<void> {
+  const json = flags.json === true;
+  const filter = readFilter(flags);
+  const entries = await store.read(filter, numberFlag(flags, 'limit') ?? 10);
+  entries.forEach(entry => console.log(formatEntry(entry, json)));
+
+  const stop = store.follow(filter, entry => console.log(formatEntry(entry, json)));
+  process.once('SIGINT', () => {
+    stop();
+    process.exit(0);
+  });
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { command, flags } = parseArgs(argv);
+  if (!command || command === 'help' || flags.help === true) {
+    console.log(USAGE);
+    return;
+  }
+
+  const store = new JsonLinesLogStore(stringFlag(flags, 'file') ?? DEFAULT_FILE);
+  switch (command) {
+    case 'serve':
+      return serve(flags, store);
+    case 'query':
+      return query(flags, store);
+    case 'tail':
+      return tail(flags, store);
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`logging-middleware: ${(error as Error).message}`);
+  if (error instanceof UsageError) {
+    console.error('Run "logging-middleware help" for usage');
+  }
+  process.exitCode = 1;
+});
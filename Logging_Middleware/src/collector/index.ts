@@ -0,0 +1,5 @@
+// Local log collector and its on-disk store (Node only)
+export { LogCollector } from './server';
+export type { LogCollectorOptions } from './server';
+export { JsonLinesLogStore, matchesLogFilter, parseTimeBound, entryTime } from './store';
+export type { StoredLogEntry, LogFilter } from './store';
@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogCollector } from './server';
+import { JsonLinesLogStore } from './store';
+
+const entry = (message: string, id?: string) => ({ id, stack: 'backend', level: 'info', package: 'db', message });
+
+describe('LogCollector', () => {
+  let directory: string;
+  let store: JsonLinesLogStore;
+  let collector: LogCollector;
+  let url: string;
+
+  const post = async (route: string, body: unknown) => {
+    const response = await fetch(`${url}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'collector-'));
+    store = new JsonLinesLogStore(path.join(directory, 'logs.jsonl'));
+    collector = new LogCollector({ port: 0, store, maxBodyBytes: 1024 });
+    url = await collector.start();
+  });
+
+  afterEach(async () => {
+    await collector.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores single and bulk entries', async () => {
+    const single = await post('/logs', entry('One'));
+    const bulk = await post('/logs/bulk', { logs: [entry('Two'), entry('Three')] });
+
+    expect(single.status).toBe(200);
+    expect(single.body.logID).toEqual(expect.any(String));
+    expect(bulk.body.logIDs).toHaveLength(2);
+    expect((await store.read()).map(stored => stored.message)).toEqual(['One', 'Two', 'Three']);
+  });
+
+  it('rejects entries that break the API contract', async () => {
+    expect((await post('/logs', 'not json')).status).toBe(400);
+    expect(await post('/logs/bulk', { logs: [entry('Fine'), { ...entry('Bad'), level: 'loud' }] })).toEqual({
+      status: 400,
+      body: { message: 'Invalid log at index 1: invalid level "loud"' }
+    });
+    expect(await store.read()).toEqual([]);
+  });
+
+  it('stores a replayed entry once and answers with its original logID', async () => {
+    const first = await post('/logs', entry('Once', 'entry-1'));
+    const replay = await post('/logs/bulk', { logs: [entry('Once', 'entry-1'), entry('New', 'entry-2')] });
+
+    expect(replay.body.logIDs[0]).toBe(first.body.logID);
+    expect((await store.read()).map(stored => stored.message)).toEqual(['Once', 'New']);
+  });
+
+  it('answers 413 to bodies over maxBodyBytes', async () => {
+    const response = await post('/logs', entry('x'.repeat(2048)));
+
+    expect(response).toEqual({ status: 413, body: { message: 'Request body exceeds 1024 bytes' } });
+    expect(await store.read()).toEqual([]);
+  });
+});
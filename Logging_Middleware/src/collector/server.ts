@@ -0,0 +1,239 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { BulkLogRequest, SerializedLogEntry } from '../types';
+import { isLogLevel } from '../levels';
+import { isLogPackage, isLogStack, isPackageAllowed } from '../validation';
+import { generateId } from '../ids';
+import { JsonLinesLogStore, StoredLogEntry } from './store';
+
+/**
+ * Options for the local log collector
+ */
+export interface LogCollectorOptions {
+  /** Port to listen on; 0 picks a free one (default 4000) */
+  port?: number;
+  /** Interface to bind (default '127.0.0.1') */
+  host?: string;
+  /** Where accepted entries are written */
+  store: JsonLinesLogStore;
+  /** Bearer token to require; any token is accepted when omitted */
+  accessToken?: string;
+  /** Value of Access-Control-Allow-Origin, so browser apps on another port can post (default '*') */
+  allowOrigin?: string;
+  /** Called with each batch of accepted entries, e.g. to echo them to the terminal */
+  onEntries?: (entries: StoredLogEntry[]) => void;
+  /** Number of recent entry ids remembered, so replayed entries are stored once (default 10000) */
+  dedupeLimit?: number;
+  /** Largest request body accepted, in bytes; larger ones get a 413 (default 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Check an entry against the evaluation API contract, returning the reason it is rejected
+ */
+function validateEntry(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object') {
+    return 'entry must be an object';
+  }
+  const entry = value as Record<string, unknown>;
+  if (!isLogStack(entry.stack)) {
+    return `invalid stack "${String(entry.stack)}"`;
+  }
+  if (!isLogLevel(entry.level)) {
+    return `invalid level "${String(entry.level)}"`;
+  }
+  if (!isLogPackage(entry.package)) {
+    return `invalid package "${String(entry.package)}"`;
+  }
+  if (!isPackageAllowed(entry.package, entry.stack)) {
+    return `package "${entry.package}" cannot be used with stack "${entry.stack}"`;
+  }
+  if (typeof entry.message !== 'string') {
+    return 'message must be a string';
+  }
+  return undefined;
+}
+
+/**
+ * Local stand-in for the evaluation log API (Node only). Accepts `POST /logs` and
+ * `POST /logs/bulk` with the same request and response shapes, and stores entries on
+ * disk so they can be queried with the CLI. Point `createFrontendLogger` at `url`
+ * during local development.
+ */
+export class LogCollector {
+  private server: http.Server;
+  private options: LogCollectorOptions;
+  /** logID given to each recently stored entry id, oldest first */
+  private seenIds = new Map<string, string>();
+
+  constructor(options: LogCollectorOptions) {
+    this.options = options;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Start listening and resolve with the base URL to pass as `apiUrl`
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 4000, this.options.host ?? '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  /**
+   * Base URL of the running collector
+   */
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('LogCollector is not running');
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Stop accepting requests
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.setHeader('Access-Control-Allow-Origin', this.options.allowOrigin ?? '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const maxBodyBytes = this.options.maxBodyBytes ?? 1024 * 1024;
+    if (Number(req.headers['content-length'] ?? 0) > maxBodyBytes) {
+      this.rejectTooLarge(req, res, maxBodyBytes);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBodyBytes) {
+        this.rejectTooLarge(req, res, maxBodyBytes);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (received > maxBodyBytes) {
+        return;
+      }
+      this.respond(req, Buffer.concat(chunks).toString('utf8'))
+        .then(([status, body]) => this.send(res, status, body))
+        .catch(error => this.send(res, 500, { message: `Could not store logs: ${(error as Error).message}` }));
+    });
+  }
+
+  private async respond(req: http.IncomingMessage, text: string): Promise<[number, unknown]> {
+    const path = (req.url ?? '/').split('?')[0];
+    const isBulk = path.endsWith('/logs/bulk');
+    if (req.method !== 'POST' || (!isBulk && !path.endsWith('/logs'))) {
+      return [404, { message: 'Not found' }];
+    }
+
+    if (this.options.accessToken && req.headers.authorization !== `Bearer ${this.options.accessToken}`) {
+      return [401, { message: 'Invalid token' }];
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return [400, { message: 'Request body must be JSON' }];
+    }
+
+    const entries = isBulk ? (body as BulkLogRequest | undefined)?.logs : [body];
+    if (!Array.isArray(entries)) {
+      return [400, { message: 'Bulk requests must have a "logs" array' }];
+    }
+    for (let index = 0; index < entries.length; index++) {
+      const reason = validateEntry(entries[index]);
+      if (reason) {
+        return [400, { message: isBulk ? `Invalid log at index ${index}: ${reason}` : `Invalid log: ${reason}` }];
+      }
+    }
+
+    // Outbox replays and unload re-sends are at-least-once: answer a known id with its
+    // original logID instead of storing the entry again
+    const receivedAt = new Date().toISOString();
+    const stored: StoredLogEntry[] = [];
+    const logIDs = (entries as SerializedLogEntry[]).map(entry => {
+      const known = entry.id ? this.seenIds.get(entry.id) : undefined;
+      if (known) {
+        return known;
+      }
+      const accepted = { ...entry, logID: generateId(), receivedAt };
+      stored.push(accepted);
+      if (entry.id) {
+        this.seenIds.set(entry.id, accepted.logID);
+      }
+      return accepted.logID;
+    });
+
+    try {
+      await this.options.store.append(stored);
+    } catch (error) {
+      // Not stored, so a retry must not be mistaken for a duplicate
+      stored.forEach(entry => {
+        if (entry.id) {
+          this.seenIds.delete(entry.id);
+        }
+      });
+      throw error;
+    }
+    this.trimSeenIds();
+    if (stored.length > 0) {
+      this.options.onEntries?.(stored);
+    }
+
+    return [200, isBulk
+      ? { logIDs, message: 'logs created successfully' }
+      : { logID: logIDs[0], message: 'log created successfully' }];
+  }
+
+  private trimSeenIds(): void {
+    const limit = this.options.dedupeLimit ?? 10000;
+    for (const id of this.seenIds.keys()) {
+      if (this.seenIds.size <= limit) {
+        break;
+      }
+      this.seenIds.delete(id);
+    }
+  }
+
+  /**
+   * Answer 413 once and stop reading, so an oversized body is never buffered
+   */
+  private rejectTooLarge(req: http.IncomingMessage, res: http.ServerResponse, maxBodyBytes: number): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.setHeader('Connection', 'close');
+    this.send(res, 413, { message: `Request body exceeds ${maxBodyBytes} bytes` });
+    req.pause();
+    res.on('finish', () => req.destroy());
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
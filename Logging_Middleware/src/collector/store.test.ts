@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonLinesLogStore, StoredLogEntry, matchesLogFilter, parseTimeBound } from './store';
+
+const stored = (message: string, overrides: Partial<StoredLogEntry> = {}): StoredLogEntry => ({
+  stack: 'backend',
+  level: 'info',
+  package: 'db',
+  message,
+  logID: message,
+  receivedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('parseTimeBound', () => {
+  it('reads durations before now and absolute dates', () => {
+    const now = new Date('2024-01-01T12:00:00.000Z');
+
+    expect(parseTimeBound('15m', now).toISOString()).toBe('2024-01-01T11:45:00.000Z');
+    expect(parseTimeBound('2024-01-01T10:00:00Z', now).toISOString()).toBe('2024-01-01T10:00:00.000Z');
+    expect(() => parseTimeBound('soon', now)).toThrow('Invalid time "soon"');
+  });
+});
+
+describe('matchesLogFilter', () => {
+  it('requires every given criterion to match', () => {
+    const entry = stored('Slow query', { level: 'warn', data: { table: 'users' } });
+
+    expect(matchesLogFilter(entry, { minLevel: 'warn', text: 'USERS' })).toBe(true);
+    expect(matchesLogFilter(entry, { minLevel: 'error' })).toBe(false);
+    expect(matchesLogFilter(entry, { packages: ['cache'] })).toBe(false);
+    expect(matchesLogFilter(entry, { since: new Date('2024-01-02T00:00:00.000Z') })).toBe(false);
+  });
+});
+
+describe('JsonLinesLogStore', () => {
+  let directory: string;
+  let store: JsonLinesLogStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'log-store-'));
+    store = new JsonLinesLogStore(path.join(directory, 'logs.jsonl'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads appended entries, keeping the most recent when limited', async () => {
+    expect(await store.read()).toEqual([]);
+
+    await store.append([stored('One'), stored('Two', { level: 'error' }), stored('Three')]);
+
+    expect((await store.read({}, 2)).map(entry => entry.message)).toEqual(['Two', 'Three']);
+    expect((await store.read({ levels: ['error'] })).map(entry => entry.message)).toEqual(['Two']);
+  });
+
+  it('follows entries written in pieces, including a character split across writes', async () => {
+    await store.append([stored('Before')]);
+    const followed: string[] = [];
+    const stop = store.follow({}, entry => followed.push(entry.message), 10);
+
+    const line = Buffer.from(`${JSON.stringify(stored('Café ☕'))}\n`, 'utf8');
+    const split = line.indexOf(Buffer.from('☕', 'utf8')) + 1;
+    try {
+      await fs.appendFile(store.filePath, line.subarray(0, split));
+      // Give the watcher time to read the first half on its own
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await fs.appendFile(store.filePath, line.subarray(split));
+      await waitFor(async () => followed.length > 0);
+    } finally {
+      stop();
+    }
+
+    expect(followed).toEqual(['Café ☕']);
+  });
+
+  it('keeps following after the file is deleted and written again', async () => {
+    await store.append([stored('Before')]);
+    const followed: string[] = [];
+    const stop = store.follow({}, entry => followed.push(entry.message), 10);
+
+    try {
+      await fs.rm(store.filePath);
+      // Give the watcher time to notice the file is gone
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await store.append([stored('After')]);
+      await waitFor(async () => followed.length > 0);
+    } finally {
+      stop();
+    }
+
+    expect(followed).toEqual(['After']);
+  });
+});
+
+async function waitFor(condition: () => Promise<boolean>, timeout: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
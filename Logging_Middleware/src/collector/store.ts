@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogLevel, LogPackage, LogStack, SerializedLogEntry } from '../types';
+import { isLevelEnabled } from '../levels';
+
+/**
+ * Entry as kept by the collector: what the client sent plus the ID and time it was accepted
+ */
+export interface StoredLogEntry extends SerializedLogEntry {
+  logID: string;
+  receivedAt: string;
+}
+
+/**
+ * Criteria for selecting stored entries; every given criterion must match
+ */
+export interface LogFilter {
+  stacks?: LogStack[];
+  /** Exact levels to keep */
+  levels?: LogLevel[];
+  /** Keep entries at or above this level */
+  minLevel?: LogLevel;
+  packages?: LogPackage[];
+  /** Keep entries at or after this time (entry timestamp, else receivedAt) */
+  since?: Date;
+  /** Keep entries before this time */
+  until?: Date;
+  /** Case-insensitive text searched in the message, data and error */
+  text?: string;
+}
+
+const RELATIVE_TIME = /^(\d+(?:\.\d+)?)(s|m|h|d)$/;
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Parse a time bound: a duration before `now` such as '15m', '2h' or '1d', or anything `Date` parses
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date {
+  const relative = RELATIVE_TIME.exec(value.trim());
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * UNIT_MS[relative[2]]);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}"; use a duration like 15m, 2h or 1d, or an ISO date`);
+  }
+  return date;
+}
+
+/**
+ * When the entry was logged, falling back to when the collector received it
+ */
+export function entryTime(entry: StoredLogEntry): Date {
+  const time = new Date(entry.timestamp ?? entry.receivedAt);
+  return Number.isNaN(time.getTime()) ? new Date(entry.receivedAt) : time;
+}
+
+/**
+ * Check whether a stored entry satisfies a filter
+ */
+export function matchesLogFilter(entry: StoredLogEntry, filter: LogFilter): boolean {
+  if (filter.stacks?.length && !filter.stacks.includes(entry.stack)) {
+    return false;
+  }
+  if (filter.levels?.length && !filter.levels.includes(entry.level)) {
+    return false;
+  }
+  if (!isLevelEnabled(entry.level, filter.minLevel)) {
+    return false;
+  }
+  if (filter.packages?.length && !filter.packages.includes(entry.package)) {
+    return false;
+  }
+  if (filter.since || filter.until) {
+    const time = entryTime(entry).getTime();
+    if ((filter.since && time < filter.since.getTime()) || (filter.until && time >= filter.until.getTime())) {
+      return false;
+    }
+  }
+  if (filter.text) {
+    const haystack = [entry.message, entry.data && JSON.stringify(entry.data), entry.error?.message]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    if (!haystack.includes(filter.text.toLowerCase())) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Stores collected entries in a JSON lines file, one entry per line (Node only).
+ * Appending keeps writes cheap and lets `follow` pick up new entries by reading the file's tail.
+ */
+export class JsonLinesLogStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append entries to the end of the file
+   */
+  async append(entries: StoredLogEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+  }
+
+  /**
+   * Read the entries matching a filter, oldest first; `limit` keeps only the most recent ones
+   */
+  async read(filter: LogFilter = {}, limit?: number): Promise<StoredLogEntry[]> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = parseLines(text).filter(entry => matchesLogFilter(entry, filter));
+    return limit === undefined ? entries : entries.slice(Math.max(entries.length - limit, 0));
+  }
+
+  /**
+   * Call `onEntry` for every matching entry appended from now on. Returns a function that stops following.
+   */
+  follow(filter: LogFilter, onEntry: (entry: StoredLogEntry) => void, interval: number = 500): () => void {
+    let position = fileSize(this.filePath);
+    // Bytes after the last newline; kept undecoded so a character split across reads survives
+    let partial = Buffer.alloc(0);
+
+    const readNew = () => {
+      const size = fileSize(this.filePath);
+      if (size < position) {
+        // The file was truncated or replaced; start over from its beginning
+        position = 0;
+        partial = Buffer.alloc(0);
+      }
+      if (size === position) {
+        return;
+      }
+
+      let buffer = Buffer.alloc(size - position);
+      try {
+        const fd = fs.openSync(this.filePath, 'r');
+        try {
+          buffer = buffer.subarray(0, fs.readSync(fd, buffer, 0, buffer.length, position));
+        } finally {
+          fs.closeSync(fd);
+        }
+      } catch (error) {
+        // Rotated or deleted between the size check and the read; pick it up on the next poll
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          position = 0;
+          partial = Buffer.alloc(0);
+        }
+        return;
+      }
+      position += buffer.length;
+
+      const bytes = Buffer.concat([partial, buffer]);
+      const lastNewline = bytes.lastIndexOf(0x0a);
+      partial = Buffer.from(bytes.subarray(lastNewline + 1));
+      parseLines(bytes.subarray(0, lastNewline + 1).toString('utf8'))
+        .filter(entry => matchesLogFilter(entry, filter))
+        .forEach(onEntry);
+    };
+
+    fs.watchFile(this.filePath, { interval }, readNew);
+    return () => fs.unwatchFile(this.filePath, readNew);
+  }
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+function parseLines(text: string): StoredLogEntry[] {
+  const entries: StoredLogEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as StoredLogEntry);
+    } catch {
+      // Skip a line cut short by a crash mid-write
+    }
+  }
+  return entries;
+}
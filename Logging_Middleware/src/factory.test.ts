@@ -0,0 +1,45 @@
+import { createBackendLogger, createFrontendLogger } from './factory';
+import { MockLogServer } from './testing/mockLogServer';
+
+describe('logger presets', () => {
+  let server: MockLogServer;
+  let apiUrl: string;
+
+  beforeEach(async () => {
+    server = new MockLogServer();
+    apiUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('frontend preset sends flattened, redacted entries to the log API with the token', async () => {
+    const logger = createFrontendLogger(apiUrl, 'frontend-token', { enableConsoleLog: false });
+
+    const response = await logger.info('api', 'Signed in', { data: { user: 'ada', password: 'hunter2' } });
+    await logger.debug('api', 'Below the default level');
+    await logger.close();
+
+    expect(response?.logID).toBe('mock-1');
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].headers.authorization).toBe('Bearer frontend-token');
+    expect(server.received[0]).toEqual({
+      id: expect.any(String),
+      stack: 'frontend',
+      level: 'info',
+      package: 'api',
+      message: expect.stringMatching(/^Signed in \| user=ada password=\[REDACTED\] correlationId=/)
+    });
+  });
+
+  it('backend preset logs on the backend stack and takes a token provider', async () => {
+    const logger = createBackendLogger(apiUrl, async () => 'provided-token', { minLevel: 'debug' });
+
+    await logger.debug('db', 'Connected');
+    await logger.close();
+
+    expect(server.requests[0].headers.authorization).toBe('Bearer provided-token');
+    expect(server.received[0]).toMatchObject({ stack: 'backend', level: 'debug', package: 'db' });
+  });
+});
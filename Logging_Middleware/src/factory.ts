@@ -1,5 +1,62 @@
 import { LoggingMiddleware } from './logger';
-import { LoggerConfig, Logger } from './types';
+import { FormatterOption, LoggerConfig, Logger, LogLevel, LogPackage, LogStack, Transport } from './types';
+import { readLevelFromQuery } from './levels';
+import { ConsoleTransport } from './transports/console';
+import { HttpTransport, HttpTransportOptions } from './transports/http';
+import { LogOutbox } from './outbox/outbox';
+import { MemoryOutboxStore } from './outbox/memoryStore';
+import { createBrowserOutboxStore } from './outbox/indexedDbStore';
+import { CircuitBreaker } from './circuitBreaker';
+import { exponentialBackoff, retryAfterBackoff } from './backoff';
+import { RedactionOptions } from './redaction';
+import { SamplingOptions } from './sampling';
+import { ValidationOptions } from './validation';
+import { TokenProvider } from './auth';
+import { LogStatsCollector } from './stats';
+
+/**
+ * Optional settings that can be layered on top of a preset
+ */
+export interface LoggerPresetOptions extends Partial<Omit<HttpTransportOptions, 'apiUrl' | 'accessToken' | 'tokenProvider' | 'outbox'>> {
+  /** Outbox for undelivered entries; pass null to drop them instead */
+  outbox?: LogOutbox | null;
+  /** Redaction rules; presets enable the built-ins by default, pass false to disable */
+  redaction?: RedactionOptions | false;
+  /** Sampling and per-package rate limits; disabled by default */
+  sampling?: SamplingOptions;
+  /** Runtime validation of log calls; 'correct' mode by default, pass false to disable */
+  validation?: ValidationOptions | false;
+  /** Log a summary of getStats() every this many milliseconds; off by default */
+  statsReportInterval?: number;
+  /** Breaker shared by the preset's HTTP transport and the logger; one is created by default */
+  circuitBreaker?: CircuitBreaker;
+  /** Write entries to the console as well as the log API */
+  enableConsoleLog?: boolean;
+  /** Format of console output; the frontend preset defaults to 'text', the backend preset to JSON lines on stdout */
+  consoleFormatter?: FormatterOption;
+  /** Extra transports attached after the preset's own */
+  transports?: Transport[];
+  /** Minimum level for every entry; presets default to 'info' */
+  minLevel?: LogLevel;
+  packageLevels?: Partial<Record<LogPackage, LogLevel>>;
+  stackLevels?: Partial<Record<LogStack, LogLevel>>;
+}
+
+/**
+ * Preset options that only apply in the browser
+ */
+export interface FrontendLoggerOptions extends LoggerPresetOptions {
+  /** Let a `?logLevel=` query parameter override `minLevel` for the rest of the session (default true) */
+  levelFromQuery?: boolean;
+}
+
+/**
+ * Map a preset's token argument to HTTP transport options: a string is used as is,
+ * a function becomes the provider that keeps the token fresh
+ */
+function tokenOptions(accessToken: string | TokenProvider): Pick<HttpTransportOptions, 'accessToken' | 'tokenProvider'> {
+  return typeof accessToken === 'function' ? { tokenProvider: accessToken } : { accessToken };
+}
 
 /**
  * Factory function to create a logger instance with default configuration
@@ -9,29 +66,112 @@ export function createLogger(config: LoggerConfig): Logger {
 }
 
 /**
- * Create a logger for frontend applications
+ * Create a logger for frontend applications: console output plus the log API
  */
-export function createFrontendLogger(apiUrl: string, accessToken: string): Logger {
+export function createFrontendLogger(apiUrl: string, accessToken: string | TokenProvider, options: FrontendLoggerOptions = {}): Logger {
+  const {
+    enableConsoleLog = true,
+    consoleFormatter = 'text',
+    transports = [],
+    minLevel = 'info',
+    packageLevels,
+    stackLevels,
+    levelFromQuery = true,
+    outbox,
+    circuitBreaker = new CircuitBreaker(),
+    redaction = {},
+    sampling,
+    validation,
+    stats = new LogStatsCollector(),
+    statsReportInterval,
+    ...httpOptions
+  } = options;
+  const browserStore = outbox === undefined ? createBrowserOutboxStore() : null;
+
   return new LoggingMiddleware({
-    apiUrl,
-    accessToken,
     defaultStack: 'frontend',
-    enableConsoleLog: true,
-    retryAttempts: 3,
-    retryDelay: 1000
+    enableConsoleLog,
+    minLevel: (levelFromQuery && readLevelFromQuery()) || minLevel,
+    packageLevels,
+    stackLevels,
+    circuitBreaker,
+    redaction: redaction || undefined,
+    sampling,
+    validation,
+    stats,
+    statsReportInterval,
+    transports: [
+      ...(enableConsoleLog ? [new ConsoleTransport({ formatter: consoleFormatter })] : []),
+      new HttpTransport({
+        apiUrl,
+        ...tokenOptions(accessToken),
+        logFailures: enableConsoleLog,
+        retryAttempts: 3,
+        retryDelay: 1000,
+        backoff: retryAfterBackoff(exponentialBackoff({ baseDelay: httpOptions.retryDelay ?? 1000 })),
+        circuitBreaker,
+        stats,
+        contextMode: 'flatten', // The evaluation API only takes the four base fields (plus the entry id)
+        unloadDelivery: true,
+        outbox: outbox ?? (browserStore ? new LogOutbox({ store: browserStore }) : undefined),
+        ...httpOptions
+      }),
+      ...transports
+    ]
   });
 }
 
 /**
- * Create a logger for backend applications
+ * Create a logger for backend applications: the log API only, with more patient retries
  */
-export function createBackendLogger(apiUrl: string, accessToken: string): Logger {
+export function createBackendLogger(apiUrl: string, accessToken: string | TokenProvider, options: LoggerPresetOptions = {}): Logger {
+  const {
+    enableConsoleLog = false, // Usually disabled in production backend
+    consoleFormatter = 'json',
+    transports = [],
+    minLevel = 'info',
+    packageLevels,
+    stackLevels,
+    outbox,
+    circuitBreaker = new CircuitBreaker(),
+    redaction = {},
+    sampling,
+    validation,
+    stats = new LogStatsCollector(),
+    statsReportInterval,
+    ...httpOptions
+  } = options;
+
   return new LoggingMiddleware({
-    apiUrl,
-    accessToken,
     defaultStack: 'backend',
-    enableConsoleLog: false, // Usually disabled in production backend
-    retryAttempts: 5,
-    retryDelay: 2000
+    enableConsoleLog,
+    minLevel,
+    packageLevels,
+    stackLevels,
+    circuitBreaker,
+    redaction: redaction || undefined,
+    sampling,
+    validation,
+    stats,
+    statsReportInterval,
+    transports: [
+      // One machine-parsable line per entry on stdout, whatever the level
+      ...(enableConsoleLog ? [new ConsoleTransport({ formatter: consoleFormatter, levelMethods: false })] : []),
+      new HttpTransport({
+        apiUrl,
+        ...tokenOptions(accessToken),
+        logFailures: enableConsoleLog,
+        retryAttempts: 5,
+        retryDelay: 2000,
+        backoff: retryAfterBackoff(exponentialBackoff({ baseDelay: httpOptions.retryDelay ?? 2000 })),
+        circuitBreaker,
+        stats,
+        contextMode: 'flatten', // The evaluation API only takes the four base fields (plus the entry id)
+        // In-memory by default; pass a LogOutbox with a FileOutboxStore to survive restarts
+        outbox: outbox === undefined ? new LogOutbox({ store: new MemoryOutboxStore() }) : outbox ?? undefined,
+        ...httpOptions
+      }),
+      ...transports
+    ]
   });
-} 
\ No newline at end of file
+}
@@ -0,0 +1,84 @@
+import { LogEntry } from './types';
+import {
+  ECS_VERSION,
+  createPrettyFormatter,
+  formatEcs,
+  formatJsonLine,
+  formatLogfmt,
+  formatText,
+  resolveFormatter
+} from './formatters';
+
+const timestamp = new Date('2024-01-02T03:04:05.678Z');
+
+const entry: LogEntry = {
+  id: 'entry-1',
+  stack: 'backend',
+  level: 'warn',
+  package: 'db',
+  message: 'Slow query',
+  context: { timestamp, correlationId: 'request-1', data: { table: 'urls', timing: { ms: 120 } } }
+};
+
+describe('formatters', () => {
+  it('formats text with context pairs', () => {
+    expect(formatText(entry)).toBe(
+      '[2024-01-02T03:04:05.678Z] [BACKEND] [WARN] [db] Slow query table=urls timing="{\\"ms\\":120}" correlationId=request-1'
+    );
+  });
+
+  it('formats JSON lines with structured fields', () => {
+    expect(JSON.parse(formatJsonLine(entry))).toEqual({
+      id: 'entry-1',
+      stack: 'backend',
+      level: 'warn',
+      package: 'db',
+      message: 'Slow query',
+      timestamp: '2024-01-02T03:04:05.678Z',
+      correlationId: 'request-1',
+      data: { table: 'urls', timing: { ms: 120 } }
+    });
+  });
+
+  it('formats logfmt with quoted values and dotted keys', () => {
+    expect(formatLogfmt(entry)).toBe(
+      'time=2024-01-02T03:04:05.678Z level=warn stack=backend package=db msg="Slow query" ' +
+      'id=entry-1 correlationId=request-1 table=urls timing.ms=120'
+    );
+  });
+
+  it('formats Elastic Common Schema documents', () => {
+    const error = new Error('Timeout');
+    const document = JSON.parse(formatEcs({ ...entry, context: { ...entry.context, error } }));
+
+    expect(document).toMatchObject({
+      '@timestamp': '2024-01-02T03:04:05.678Z',
+      'log.level': 'warn',
+      message: 'Slow query',
+      ecs: { version: ECS_VERSION },
+      log: { logger: 'db' },
+      service: { type: 'backend' },
+      event: { id: 'entry-1' },
+      labels: { correlation_id: 'request-1' },
+      data: { table: 'urls', timing: { ms: 120 } },
+      error: { type: 'Error', message: 'Timeout' }
+    });
+  });
+
+  it('formats pretty lines with or without colours', () => {
+    const plain = createPrettyFormatter({ colors: false, showStack: false })(entry);
+    const coloured = createPrettyFormatter({ colors: true })(entry);
+
+    expect(plain).toBe('03:04:05.678 WARN  backend/db Slow query table=urls timing="{\\"ms\\":120}" correlationId=request-1');
+    expect(coloured).toContain('\u001b[33mWARN \u001b[0m');
+  });
+
+  it('resolves formatters by name or function and rejects unknown names', () => {
+    const custom = (logEntry: LogEntry) => logEntry.message;
+
+    expect(resolveFormatter()).toBe(formatText);
+    expect(resolveFormatter('logfmt')).toBe(formatLogfmt);
+    expect(resolveFormatter(custom)).toBe(custom);
+    expect(() => resolveFormatter('xml' as never)).toThrow('Unknown log formatter "xml"');
+  });
+});
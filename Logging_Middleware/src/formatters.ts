@@ -0,0 +1,209 @@
+import { FormatterName, FormatterOption, LogEntry, LogFormatter, LogLevel } from './types';
+import { formatContextPairs, serializeEntry, serializeError, toJsonSafe } from './serialize';
+
+/**
+ * Default human-readable format: `[timestamp] [STACK] [LEVEL] [package] message key=value ...`
+ */
+export function formatText(entry: LogEntry): string {
+  const timestamp = (entry.context?.timestamp ?? new Date()).toISOString();
+  const pairs = formatContextPairs(entry.context);
+  const line = `[${timestamp}] [${entry.stack.toUpperCase()}] [${entry.level.toUpperCase()}] [${entry.package}] ${entry.message}`;
+
+  return pairs ? `${line} ${pairs}` : line;
+}
+
+/**
+ * One JSON object per line, with the same fields the HTTP transport sends in structured mode
+ */
+export function formatJsonLine(entry: LogEntry): string {
+  const serialized = serializeEntry(entry);
+  return JSON.stringify({
+    ...serialized,
+    timestamp: serialized.timestamp ?? new Date().toISOString()
+  });
+}
+
+/**
+ * Quote a logfmt value when it contains spaces, quotes or `=`
+ */
+function logfmtValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[\s"=\\]/.test(text) || text === '' ? JSON.stringify(text) : text;
+}
+
+/**
+ * Expand nested objects into dotted keys, e.g. `{ user: { id: 1 } }` becomes `user.id=1`
+ */
+function flattenPairs(value: unknown, prefix: string, pairs: string[]): void {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      flattenPairs(item, prefix ? `${prefix}.${key}` : key, pairs);
+    });
+  } else if (value !== undefined) {
+    pairs.push(`${prefix}=${logfmtValue(value)}`);
+  }
+}
+
+/**
+ * logfmt: `time=... level=info stack=backend package=db msg="..." key=value ...`.
+ * Nested context data is flattened into dotted keys.
+ */
+export function formatLogfmt(entry: LogEntry): string {
+  const context = entry.context;
+  const pairs: string[] = [
+    `time=${(context?.timestamp ?? new Date()).toISOString()}`,
+    `level=${entry.level}`,
+    `stack=${entry.stack}`,
+    `package=${entry.package}`,
+    `msg=${logfmtValue(entry.message)}`
+  ];
+
+  if (entry.id) {
+    pairs.push(`id=${entry.id}`);
+  }
+  if (context?.correlationId) {
+    pairs.push(`correlationId=${logfmtValue(context.correlationId)}`);
+  }
+  flattenPairs(toJsonSafe(context?.data ?? {}), '', pairs);
+  if (context?.error) {
+    pairs.push(`error=${logfmtValue(`${context.error.name}: ${context.error.message}`)}`);
+  }
+
+  return pairs.join(' ');
+}
+
+/**
+ * Elastic Common Schema version the ECS formatter targets
+ */
+export const ECS_VERSION = '8.11.0';
+
+/**
+ * Elastic Common Schema JSON line. The stack goes to `service.type`, the package to
+ * `log.logger` and context data to the custom `data` field.
+ */
+export function formatEcs(entry: LogEntry): string {
+  const context = entry.context;
+  const document: Record<string, unknown> = {
+    '@timestamp': (context?.timestamp ?? new Date()).toISOString(),
+    'log.level': entry.level,
+    message: entry.message,
+    ecs: { version: ECS_VERSION },
+    log: { logger: entry.package },
+    service: { type: entry.stack }
+  };
+
+  if (entry.id) {
+    document.event = { id: entry.id };
+  }
+  if (context?.correlationId) {
+    document.labels = { correlation_id: context.correlationId };
+  }
+  if (context?.data && Object.keys(context.data).length > 0) {
+    document.data = toJsonSafe(context.data);
+  }
+  if (context?.error) {
+    const error = serializeError(context.error);
+    document.error = { type: error.name, message: error.message, stack_trace: error.stack };
+  }
+
+  return JSON.stringify(document);
+}
+
+/**
+ * Options for the pretty formatter
+ */
+export interface PrettyFormatterOptions {
+  /** Use ANSI colours; defaults to whether stdout is a terminal and NO_COLOR is unset */
+  colors?: boolean;
+  /** Print the error stack trace below the entry (default true) */
+  showStack?: boolean;
+}
+
+const ANSI_RESET = '\u001b[0m';
+const ANSI_DIM = '\u001b[2m';
+const ANSI_BOLD = '\u001b[1m';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '\u001b[90m',
+  info: '\u001b[36m',
+  warn: '\u001b[33m',
+  error: '\u001b[31m',
+  fatal: '\u001b[41;97m'
+};
+
+/**
+ * Whether the current process writes to a colour-capable terminal
+ */
+function supportsColor(): boolean {
+  if (typeof process === 'undefined' || !process.stdout) {
+    return false;
+  }
+  return !process.env?.NO_COLOR && !!process.stdout.isTTY;
+}
+
+/**
+ * Create a compact, colourized format for development:
+ * `12:00:00.000 INFO  frontend/component message key=value`
+ */
+export function createPrettyFormatter(options: PrettyFormatterOptions = {}): LogFormatter {
+  const colors = options.colors ?? supportsColor();
+  const showStack = options.showStack ?? true;
+  const paint = (code: string, text: string) => (colors ? `${code}${text}${ANSI_RESET}` : text);
+
+  return entry => {
+    const time = (entry.context?.timestamp ?? new Date()).toISOString().slice(11, 23);
+    const level = paint(LEVEL_COLORS[entry.level], entry.level.toUpperCase().padEnd(5));
+    const source = paint(ANSI_DIM, `${entry.stack}/${entry.package}`);
+    const pairs = formatContextPairs(entry.context);
+
+    let line = `${paint(ANSI_DIM, time)} ${level} ${source} ${paint(ANSI_BOLD, entry.message)}`;
+    if (pairs) {
+      line += ` ${paint(ANSI_DIM, pairs)}`;
+    }
+
+    const stack = entry.context?.error?.stack;
+    if (showStack && stack) {
+      // The first stack line repeats the error message already shown in the pairs
+      const frames = stack.split('\n').slice(1).map(frame => `    ${frame.trim()}`);
+      if (frames.length > 0) {
+        line += `\n${paint(ANSI_DIM, frames.join('\n'))}`;
+      }
+    }
+
+    return line;
+  };
+}
+
+/**
+ * Pretty formatter with colours detected from the environment
+ */
+export const formatPretty: LogFormatter = createPrettyFormatter();
+
+/**
+ * Built-in formatters by name
+ */
+export const FORMATTERS: Record<FormatterName, LogFormatter> = {
+  text: formatText,
+  json: formatJsonLine,
+  logfmt: formatLogfmt,
+  ecs: formatEcs,
+  pretty: formatPretty
+};
+
+/**
+ * Resolve a formatter given by name or as a custom function, falling back to the text format
+ */
+export function resolveFormatter(formatter?: FormatterOption): LogFormatter {
+  if (typeof formatter === 'function') {
+    return formatter;
+  }
+  if (formatter === undefined) {
+    return formatText;
+  }
+
+  const builtIn = FORMATTERS[formatter] as LogFormatter | undefined;
+  if (!builtIn) {
+    throw new Error(`Unknown log formatter "${formatter}"`);
+  }
+  return builtIn;
+}
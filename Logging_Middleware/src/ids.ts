@@ -0,0 +1,15 @@
+/**
+ * Generate a random identifier, using crypto.randomUUID where the runtime provides it
+ */
+export function generateId(): string {
+  const cryptoApi = typeof crypto !== 'undefined' ? (crypto as { randomUUID?: () => string }) : undefined;
+  if (cryptoApi?.randomUUID) {
+    return cryptoApi.randomUUID();
+  }
+
+  // Fallback for older browsers and runtimes: RFC 4122 version 4 layout from Math.random
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
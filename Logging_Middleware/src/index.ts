@@ -5,15 +5,130 @@ export type {
   LogPackage, 
   LoggerConfig, 
   LogEntry, 
+  LogContext,
+  LogBindings,
+  SerializedError,
+  SerializedLogEntry,
+  ContextMode,
   LogResponse, 
+  BulkLogRequest,
+  BulkLogResponse,
+  LogFormatter,
+  FormatterName,
+  FormatterOption,
+  LevelScope,
+  Transport,
   Logger 
 } from './types';
 
 // Export main class
 export { LoggingMiddleware } from './logger';
 
+export { ChildLogger } from './child';
+export { generateId } from './ids';
+
+// Export transports and formatting helpers
+export {
+  ConsoleTransport,
+  HttpTransport,
+  MemoryTransport,
+  matchesLogQuery,
+  StreamTransport,
+  LocalStorageTransport,
+  IndexedDbTransport
+} from './transports';
+export type {
+  ConsoleTransportOptions,
+  HttpTransportOptions,
+  MemoryTransportOptions,
+  LogQuery,
+  StreamTransportOptions,
+  WritableLike,
+  LocalStorageTransportOptions,
+  IndexedDbTransportOptions
+} from './transports';
+export {
+  LogOutbox,
+  MemoryOutboxStore,
+  LocalStorageOutboxStore,
+  IndexedDbOutboxStore,
+  createBrowserOutboxStore
+} from './outbox';
+export type { OutboxRecord, OutboxStore, OutboxEvictionPolicy, LogOutboxOptions } from './outbox';
+export { CircuitBreaker } from './circuitBreaker';
+export type { CircuitState, CircuitStateChange, CircuitBreakerOptions, CircuitBreakerMetrics } from './circuitBreaker';
+export { linearBackoff, exponentialBackoff, retryAfterBackoff, getRetryAfterDelay } from './backoff';
+export type { BackoffStrategy, ExponentialBackoffOptions } from './backoff';
+export { createRedactor, hashValue, REDACTED, DEFAULT_SENSITIVE_QUERY_PARAMS } from './redaction';
+export type {
+  RedactionAction,
+  RedactionOptions,
+  KeyRedactionRule,
+  PatternRedactionRule,
+  BuiltInRedaction,
+  Redactor
+} from './redaction';
+export {
+  createValidator,
+  isLogStack,
+  isLogPackage,
+  isPackageAllowed,
+  LOG_STACKS,
+  PACKAGE_STACKS
+} from './validation';
+export type { ValidationMode, ValidationOptions, ValidationResult, LogCall, Validator } from './validation';
+export { TokenManager, decodeJwtExpiry } from './auth';
+export type { TokenProvider, TokenManagerOptions } from './auth';
+export { Sampler, TokenBucket } from './sampling';
+export type { SamplingOptions, SamplingDecision, RateLimitOptions, SuppressionSummary } from './sampling';
+export { startSpan, timeOperation } from './timing';
+export type { Span, TimerOptions } from './timing';
+export { LogStatsCollector, formatPrometheusMetrics } from './stats';
+export type { LoggerStats, LogOutcome, LatencySummary, LogStatsCollectorOptions } from './stats';
+export { createErrorReporter, installBrowserErrorHandlers, toError } from './integrations/errorCapture';
+export type {
+  ErrorReporter,
+  ErrorReporterOptions,
+  CapturedErrorDetails,
+  ErrorSource
+} from './integrations/errorCapture';
+export { reportWebVitals, rateWebVital, WEB_VITAL_THRESHOLDS } from './integrations/webVitals';
+export type {
+  WebVitalName,
+  WebVitalRating,
+  WebVitalMetric,
+  WebVitalSubscriber,
+  WebVitalSources,
+  WebVitalsOptions,
+  WebVitalsReporter
+} from './integrations/webVitals';
+export {
+  formatText,
+  formatJsonLine,
+  formatLogfmt,
+  formatEcs,
+  formatPretty,
+  createPrettyFormatter,
+  resolveFormatter,
+  FORMATTERS,
+  ECS_VERSION
+} from './formatters';
+export type { PrettyFormatterOptions } from './formatters';
+export { serializeEntry, flattenEntry, serializeError, toJsonSafe, formatContextPairs } from './serialize';
+export {
+  LOG_LEVEL_PRIORITY,
+  LOG_LEVEL_SESSION_KEY,
+  isLevelEnabled,
+  isLogLevel,
+  readLevelFromQuery
+} from './levels';
+
+export { TestLogger, createTestLogger } from './testing';
+export type { TestLoggerOptions } from './testing';
+
 // Export convenience functions for creating logger instances
 export { createLogger, createFrontendLogger, createBackendLogger } from './factory';
+export type { LoggerPresetOptions, FrontendLoggerOptions } from './factory';
 
 // Default export for easy importing
 export { LoggingMiddleware as default } from './logger'; 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { createTestLogger } from '../testing/testLogger';
+import { createErrorReporter, toError } from './errorCapture';
+
+describe('toError', () => {
+  it('wraps thrown values that are not errors', () => {
+    const error = new Error('Boom');
+
+    expect(toError(error)).toBe(error);
+    expect(toError('Failed').message).toBe('Failed');
+    expect(toError({ code: 42 }).message).toBe('{"code":42}');
+  });
+});
+
+describe('createErrorReporter', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('logs the error with its source and route', () => {
+    const logger = createTestLogger();
+    const reporter = createErrorReporter({ logger, getRoute: () => '/stats' });
+
+    reporter.report(new Error('Boom'), { source: 'react', componentStack: 'at App' });
+
+    const logged = logger.expectLogged({ level: 'error', package: 'component', message: 'Captured error (react): Boom' });
+    expect(logged.context?.data).toMatchObject({ source: 'react', route: '/stats', componentStack: 'at App' });
+    expect(logged.context?.error?.message).toBe('Boom');
+  });
+
+  it('counts repeats within the window and logs the count when the window ends', () => {
+    jest.useFakeTimers();
+    const logger = createTestLogger();
+    const reporter = createErrorReporter({ logger, dedupeWindow: 1000, getRoute: () => undefined });
+    const error = new Error('Boom');
+
+    reporter.report(error);
+    reporter.report(error);
+    reporter.report(error);
+    expect(logger.entries).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    logger.expectLogged({ message: 'Captured error (manual) repeated 2 times: Boom', data: { suppressedRepeats: 2 } });
+  });
+
+  it('attaches the count to the next occurrence after the window instead of logging it twice', () => {
+    jest.useFakeTimers();
+    const logger = createTestLogger();
+    const reporter = createErrorReporter({ logger, dedupeWindow: 1000, getRoute: () => undefined });
+    const error = new Error('Boom');
+
+    reporter.report(error);
+    reporter.report(error);
+    jest.setSystemTime(Date.now() + 1000);
+    reporter.report(error);
+    jest.runOnlyPendingTimers();
+
+    expect(logger.entries).toHaveLength(2);
+    logger.expectLogged({ message: 'Captured error (manual): Boom', data: { suppressedRepeats: 1 } });
+  });
+});
@@ -0,0 +1,168 @@
+import { Logger, LogLevel, LogPackage } from '../types';
+
+/**
+ * Where a captured error came from
+ */
+export type ErrorSource = 'window.onerror' | 'unhandledrejection' | 'react' | 'uncaughtException' | 'unhandledRejection' | 'manual';
+
+/**
+ * Extra details about a captured error
+ */
+export interface CapturedErrorDetails {
+  source?: ErrorSource;
+  level?: LogLevel;
+  /** React component stack from an error boundary */
+  componentStack?: string;
+  /** Route the user was on; defaults to the current location in the browser */
+  route?: string;
+}
+
+/**
+ * Options for the error reporter
+ */
+export interface ErrorReporterOptions {
+  logger: Logger;
+  /** Package the entries are logged under (default 'component') */
+  packageName?: LogPackage;
+  /** Identical errors within this many milliseconds are counted, not logged again (default 5000) */
+  dedupeWindow?: number;
+  /** Resolve the current route; defaults to `window.location.pathname` in the browser */
+  getRoute?: () => string | undefined;
+}
+
+/**
+ * Reports captured errors through a logger, folding bursts of the same error into one entry
+ */
+export interface ErrorReporter {
+  report(error: unknown, details?: CapturedErrorDetails): void;
+}
+
+/**
+ * Turn anything that was thrown or rejected into an Error
+ */
+export function toError(value: unknown): Error {
+  if (value instanceof Error) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return new Error(value);
+  }
+  try {
+    return new Error(JSON.stringify(value));
+  } catch {
+    return new Error(String(value));
+  }
+}
+
+/**
+ * An error logged recently, with the repeats counted since
+ */
+interface RecentError {
+  lastLoggedAt: number;
+  suppressed: number;
+  /** Logs the repeat count when the window ends, if no new occurrence did first */
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  error: Error;
+  source: ErrorSource;
+  level: LogLevel;
+  route?: string;
+}
+
+/**
+ * Create an error reporter. The first occurrence of an error is logged immediately; repeats
+ * within `dedupeWindow` are only counted. The count is logged when the window ends, or
+ * attached to the next occurrence if that comes first.
+ */
+export function createErrorReporter(options: ErrorReporterOptions): ErrorReporter {
+  const { logger, packageName = 'component', dedupeWindow = 5000 } = options;
+  const getRoute = options.getRoute ?? (() => (typeof window !== 'undefined' ? window.location?.pathname : undefined));
+  const recent = new Map<string, RecentError>();
+
+  const flushRepeats = (key: string) => {
+    const seen = recent.get(key);
+    recent.delete(key);
+    if (!seen || seen.suppressed === 0) {
+      return;
+    }
+    void logger[seen.level](
+      packageName,
+      `Captured error (${seen.source}) repeated ${seen.suppressed} times: ${seen.error.message}`,
+      { data: { source: seen.source, route: seen.route, suppressedRepeats: seen.suppressed } }
+    );
+  };
+
+  return {
+    report(value, details = {}) {
+      const error = toError(value);
+      const key = `${error.name}|${error.message}|${(error.stack ?? '').split('\n')[1] ?? ''}`;
+      const now = Date.now();
+      const seen = recent.get(key);
+
+      if (seen && now - seen.lastLoggedAt < dedupeWindow) {
+        seen.suppressed++;
+        if (!seen.flushTimer) {
+          seen.flushTimer = setTimeout(() => flushRepeats(key), seen.lastLoggedAt + dedupeWindow - now);
+          // Never keep a Node process alive just to report a count
+          (seen.flushTimer as { unref?: () => void }).unref?.();
+        }
+        return;
+      }
+
+      const suppressed = seen?.suppressed ?? 0;
+      if (seen?.flushTimer) {
+        clearTimeout(seen.flushTimer);
+      }
+
+      const source = details.source ?? 'manual';
+      const level = details.level ?? 'error';
+      const route = details.route ?? getRoute();
+      recent.set(key, { lastLoggedAt: now, suppressed: 0, flushTimer: null, error, source, level, route });
+
+      // Keep the map from growing without bound in long-lived pages and processes
+      recent.forEach((entry, entryKey) => {
+        if (now - entry.lastLoggedAt >= dedupeWindow && entryKey !== key && !entry.flushTimer) {
+          recent.delete(entryKey);
+        }
+      });
+
+      void logger[level](
+        packageName,
+        `Captured error (${source}): ${error.message}`,
+        {
+          error,
+          data: {
+            source,
+            route,
+            componentStack: details.componentStack,
+            ...(suppressed > 0 ? { suppressedRepeats: suppressed } : {})
+          }
+        }
+      );
+    }
+  };
+}
+
+/**
+ * Report `window.onerror` and `unhandledrejection` events (browser only).
+ * Returns a function that removes the handlers.
+ */
+export function installBrowserErrorHandlers(reporter: ErrorReporter): () => void {
+  if (typeof window === 'undefined' || !window.addEventListener) {
+    return () => undefined;
+  }
+
+  const handleError = (event: ErrorEvent) => {
+    reporter.report(event.error ?? event.message, { source: 'window.onerror' });
+  };
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    reporter.report(event.reason, { source: 'unhandledrejection' });
+  };
+
+  window.addEventListener('error', handleError);
+  window.addEventListener('unhandledrejection', handleRejection);
+
+  return () => {
+    window.removeEventListener('error', handleError);
+    window.removeEventListener('unhandledrejection', handleRejection);
+  };
+}
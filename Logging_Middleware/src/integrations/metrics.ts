@@ -0,0 +1,26 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '../types';
+import { formatPrometheusMetrics } from '../stats';
+
+/**
+ * Options for the metrics endpoint
+ */
+export interface MetricsHandlerOptions {
+  /** Prefix of every metric name (default 'logging_middleware') */
+  prefix?: string;
+}
+
+/**
+ * Create an HTTP handler serving the logger's stats in the Prometheus text format (Node only),
+ * e.g. `app.get('/metrics', createMetricsHandler(logger))` or inside `http.createServer`
+ */
+export function createMetricsHandler(
+  logger: Logger,
+  options: MetricsHandlerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (_req, res) => {
+    const body = formatPrometheusMetrics(logger.getStats(), options.prefix);
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(body);
+  };
+}
@@ -0,0 +1,57 @@
+import { ErrorReporter } from './errorCapture';
+
+/**
+ * Options for process-level error capture
+ */
+export interface ProcessErrorHandlerOptions {
+  /**
+   * Exit with code 1 after an uncaught exception has been logged, as Node would without
+   * a handler (default true). The process state is undefined after such an error.
+   */
+  exitOnUncaughtException?: boolean;
+  /**
+   * Exit with code 1 after an unhandled rejection has been logged (default true). Node
+   * crashes on these by default, and listening for them would otherwise turn that off.
+   */
+  exitOnUnhandledRejection?: boolean;
+  /** Called before exiting so pending log deliveries can finish, e.g. `() => logger.flush()` */
+  beforeExit?: () => Promise<void>;
+}
+
+/**
+ * Report `uncaughtException` at fatal and `unhandledRejection` at error level (Node only),
+ * then exit as Node would have. Returns a function that removes the handlers.
+ */
+export function installProcessErrorHandlers(
+  reporter: ErrorReporter,
+  options: ProcessErrorHandlerOptions = {}
+): () => void {
+  const { exitOnUncaughtException = true, exitOnUnhandledRejection = true, beforeExit } = options;
+
+  const exitAfterFlush = () => {
+    process.exitCode = 1;
+    const exit = () => process.exit(1);
+    (beforeExit ? beforeExit() : Promise.resolve()).then(exit, exit);
+  };
+
+  const handleException = (error: Error) => {
+    reporter.report(error, { source: 'uncaughtException', level: 'fatal' });
+    if (exitOnUncaughtException) {
+      exitAfterFlush();
+    }
+  };
+  const handleRejection = (reason: unknown) => {
+    reporter.report(reason, { source: 'unhandledRejection' });
+    if (exitOnUnhandledRejection) {
+      exitAfterFlush();
+    }
+  };
+
+  process.on('uncaughtException', handleException);
+  process.on('unhandledRejection', handleRejection);
+
+  return () => {
+    process.off('uncaughtException', handleException);
+    process.off('unhandledRejection', handleRejection);
+  };
+}
@@ -0,0 +1,57 @@
+import { Logger } from '../types';
+
+/**
+ * Options for flushing logs when a Node process ends
+ */
+export interface ProcessFlushOptions {
+  /** Signals that flush and close the logger before the process exits (default ['SIGTERM']) */
+  signals?: NodeJS.Signals[];
+  /** Stop waiting for delivery after this many milliseconds on a signal (default 5000) */
+  timeout?: number;
+}
+
+/**
+ * Deliver pending entries before a Node process ends, so short-lived scripts keep their
+ * final logs: flushes on `beforeExit`, and on each signal closes the logger and then lets
+ * the signal terminate the process. Returns a function that removes the handlers.
+ */
+export function installProcessFlush(logger: Logger, options: ProcessFlushOptions = {}): () => void {
+  const { signals = ['SIGTERM'], timeout = 5000 } = options;
+  let flushing = false;
+
+  const handleBeforeExit = () => {
+    // Sending keeps the event loop alive and re-emits beforeExit once done; only flush once per round
+    if (!flushing) {
+      flushing = true;
+      void logger.flush().finally(() => {
+        flushing = false;
+      });
+    }
+  };
+
+  const handleSignal = (signal: NodeJS.Signals) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, timeout);
+    });
+
+    void Promise.race([logger.close().catch(() => undefined), deadline]).then(() => {
+      clearTimeout(timer);
+      uninstall();
+      // Re-raise so the default handler exits with the usual code, unless the application handles the signal itself
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const uninstall = () => {
+    process.off('beforeExit', handleBeforeExit);
+    signals.forEach(signal => process.off(signal, handleSignal));
+  };
+
+  process.on('beforeExit', handleBeforeExit);
+  signals.forEach(signal => process.on(signal, handleSignal));
+
+  return uninstall;
+}
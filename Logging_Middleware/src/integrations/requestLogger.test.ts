@@ -0,0 +1,79 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createTestLogger, TestLogger } from '../testing';
+import { withRequestLogging } from './requestLogger';
+
+describe('request logging', () => {
+  let logger: TestLogger;
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    logger = createTestLogger({ defaultStack: 'backend' });
+    server = http.createServer(withRequestLogging((req, res) => {
+      void req.log.info('handler', 'Handling request');
+      res.statusCode = req.url?.startsWith('/missing') ? 404 : req.url?.startsWith('/broken') ? 500 : 200;
+      res.end('ok');
+    }, {
+      logger,
+      generateRequestId: () => 'generated-id',
+      ignore: req => req.url === '/health'
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // The completion entry is written once the response has finished on the server side
+  const completions = async (count: number) => {
+    for (let attempt = 0; attempt < 100 && logger.filter({ package: 'route' }).length < count; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return logger.filter({ package: 'route' });
+  };
+
+  it('logs method, route, status and latency with the request ID as correlation ID', async () => {
+    const response = await fetch(`${url}/api/urls?page=2`, { headers: { 'x-request-id': 'client-id' } });
+
+    expect(response.headers.get('x-request-id')).toBe('client-id');
+    const [entry] = await completions(1);
+    expect(entry.level).toBe('info');
+    expect(entry.message).toMatch(/^GET \/api\/urls 200 in [\d.]+ms$/);
+    expect(entry.context).toMatchObject({
+      correlationId: 'client-id',
+      data: { requestId: 'client-id', route: '/api/urls', status: 200, aborted: false }
+    });
+    logger.expectLogged({ package: 'handler', data: { requestId: 'client-id', path: '/api/urls' } });
+  });
+
+  it('generates a request ID and raises the level for client and server errors', async () => {
+    const response = await fetch(`${url}/missing`);
+    await fetch(`${url}/broken`, { method: 'POST' });
+
+    expect(response.headers.get('x-request-id')).toBe('generated-id');
+    expect((await completions(2)).map(entry => [entry.level, entry.context?.data?.status])).toEqual([
+      ['warn', 404],
+      ['error', 500]
+    ]);
+  });
+
+  it('replaces an incoming request ID that does not look like one', async () => {
+    const long = await fetch(`${url}/api/urls`, { headers: { 'x-request-id': 'a'.repeat(129) } });
+    const spaced = await fetch(`${url}/api/urls`, { headers: { 'x-request-id': 'fake entry level=error' } });
+
+    expect(long.headers.get('x-request-id')).toBe('generated-id');
+    expect(spaced.headers.get('x-request-id')).toBe('generated-id');
+    expect((await completions(2)).map(entry => entry.context?.correlationId)).toEqual(['generated-id', 'generated-id']);
+  });
+
+  it('skips ignored requests but still attaches the request logger', async () => {
+    await fetch(`${url}/health`);
+    await fetch(`${url}/api/urls`);
+
+    expect((await completions(1)).map(entry => entry.context?.data?.route)).toEqual(['/api/urls']);
+    expect(logger.filter({ package: 'handler' })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,146 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Logger, LogLevel } from '../types';
+import { generateId } from '../ids';
+
+/**
+ * Incoming request IDs are only reused when they look like an ID; anything else could
+ * inject arbitrary text into every entry of the request and into the response header
+ */
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+/**
+ * Request with the request ID and request-scoped logger attached by the middleware
+ */
+export type LoggedRequest = IncomingMessage & {
+  requestId: string;
+  log: Logger;
+};
+
+/**
+ * Options for the request logging middleware
+ */
+export interface RequestLoggerOptions {
+  /** Logger to report through, typically from createBackendLogger */
+  logger: Logger;
+  /** Header carrying the request ID in both directions (default 'x-request-id'); incoming values must match `[\w.-]{1,128}` */
+  requestIdHeader?: string;
+  /** Generates an ID when the client did not send one */
+  generateRequestId?: () => string;
+  /** Resolve the route pattern to report; defaults to the Express route when matched, else the path */
+  getRoute?: (req: IncomingMessage) => string;
+  /** Skip logging for some requests, such as health checks */
+  ignore?: (req: IncomingMessage) => boolean;
+  /** Also log when a request starts, not only when it completes (default false) */
+  logRequestStart?: boolean;
+}
+
+/**
+ * Express/Connect style middleware signature
+ */
+export type RequestLoggingMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => void;
+
+/**
+ * Create middleware that assigns every request an ID, attaches a request-scoped child
+ * logger as `req.log`, and logs method, route, status and latency when the response ends.
+ * Works with `app.use()` in Express/Connect and through `withRequestLogging` for `http.createServer`.
+ */
+export function createRequestLogger(options: RequestLoggerOptions): RequestLoggingMiddleware {
+  const {
+    logger,
+    requestIdHeader = 'x-request-id',
+    generateRequestId = generateId,
+    getRoute = defaultGetRoute,
+    ignore,
+    logRequestStart = false
+  } = options;
+
+  return (req, res, next) => {
+    const header = req.headers[requestIdHeader.toLowerCase()];
+    const incomingId = Array.isArray(header) ? header[0] : header;
+    const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : generateRequestId();
+    const method = req.method ?? 'GET';
+    const path = (req.url ?? '/').split('?')[0];
+
+    const loggedRequest = req as LoggedRequest;
+    loggedRequest.requestId = requestId;
+    loggedRequest.log = logger.child({ requestId, method, path, correlationId: requestId });
+
+    if (!res.headersSent) {
+      res.setHeader(requestIdHeader, requestId);
+    }
+
+    if (ignore?.(req)) {
+      next?.();
+      return;
+    }
+
+    const startedAt = process.hrtime.bigint();
+    let reported = false;
+
+    if (logRequestStart) {
+      void loggedRequest.log.log('backend', 'debug', 'route', `${method} ${path} started`);
+    }
+
+    const report = (aborted: boolean) => {
+      if (reported) {
+        return;
+      }
+      reported = true;
+
+      const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+      const route = getRoute(req);
+      const status = res.statusCode;
+      const level: LogLevel = aborted || status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+      const outcome = aborted ? 'aborted' : String(status);
+
+      void loggedRequest.log.log('backend', level, 'route', `${method} ${route} ${outcome} in ${durationMs.toFixed(1)}ms`, {
+        data: {
+          route,
+          status,
+          durationMs: Math.round(durationMs * 10) / 10,
+          aborted,
+          userAgent: req.headers['user-agent'],
+          contentLength: res.getHeader('content-length')
+        }
+      });
+    };
+
+    res.on('finish', () => report(false));
+    res.on('close', () => report(!res.writableFinished));
+
+    next?.();
+  };
+}
+
+/**
+ * Wrap a plain `http.createServer` handler so every request is logged, e.g.
+ * `http.createServer(withRequestLogging((req, res) => { req.log.info('handler', 'hi'); ... }, { logger }))`
+ */
+export function withRequestLogging(
+  handler: (req: LoggedRequest, res: ServerResponse) => void,
+  options: RequestLoggerOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const middleware = createRequestLogger(options);
+
+  return (req, res) => {
+    middleware(req, res, () => handler(req as LoggedRequest, res));
+  };
+}
+
+/**
+ * Use the matched Express route pattern (`/api/urls/:code`) when there is one, so
+ * metrics group by route rather than by every distinct URL
+ */
+function defaultGetRoute(req: IncomingMessage): string {
+  const expressRequest = req as IncomingMessage & { baseUrl?: string; route?: { path?: unknown } };
+  if (expressRequest.route && typeof expressRequest.route.path === 'string') {
+    return `${expressRequest.baseUrl ?? ''}${expressRequest.route.path}`;
+  }
+
+  const originalUrl = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? '/';
+  return originalUrl.split('?')[0];
+}
@@ -0,0 +1,64 @@
+import { createTestLogger } from '../testing';
+import { rateWebVital, reportWebVitals, WebVitalMetric, WebVitalSubscriber } from './webVitals';
+
+/**
+ * Stand-in for a web-vitals subscription that the test can push metrics through
+ */
+function createSource() {
+  let callback: ((metric: WebVitalMetric) => void) | undefined;
+  const subscribe: WebVitalSubscriber = handler => {
+    callback = handler;
+  };
+  return {
+    subscribe,
+    emit: (name: string, value: number, delta: number = value) => callback?.({ name, value, delta, id: `${name}-1` })
+  };
+}
+
+describe('rateWebVital', () => {
+  it('rates values against the web.dev thresholds', () => {
+    expect(rateWebVital('LCP', 2500)).toBe('good');
+    expect(rateWebVital('LCP', 3000)).toBe('needs-improvement');
+    expect(rateWebVital('CLS', 0.3)).toBe('poor');
+  });
+});
+
+describe('reportWebVitals', () => {
+  it('attributes load metrics to the landing route and logs poor values at warn', async () => {
+    const logger = createTestLogger();
+    const lcp = createSource();
+    const ttfb = createSource();
+    const reporter = reportWebVitals({ logger, sources: { onLCP: lcp.subscribe, onTTFB: ttfb.subscribe }, route: '/' });
+
+    reporter.setRoute('/stats');
+    lcp.emit('LCP', 1234.4);
+    ttfb.emit('TTFB', 2000);
+    await logger.flush();
+
+    expect(logger.expectLogged({ level: 'info', package: 'page', data: { metric: 'LCP' } }).message)
+      .toBe('Web vital LCP on /: 1234ms (good)');
+    logger.expectLogged({ level: 'warn', data: { metric: 'TTFB', rating: 'poor', route: '/' } });
+  });
+
+  it('reports CLS and INP per route when the route changes', async () => {
+    const logger = createTestLogger();
+    const cls = createSource();
+    const inp = createSource();
+    const reporter = reportWebVitals({ logger, sources: { onCLS: cls.subscribe, onINP: inp.subscribe }, route: '/' });
+
+    cls.emit('CLS', 0.05, 0.05);
+    cls.emit('CLS', 0.08, 0.03);
+    inp.emit('INP', 120);
+    reporter.setRoute('/stats');
+    inp.emit('INP', 600);
+    reporter.stop();
+    inp.emit('INP', 900);
+    await logger.flush();
+
+    expect(logger.entries.map(entry => entry.message)).toEqual([
+      'Web vital CLS on /: 0.08 (good)',
+      'Web vital INP on /: 120ms (good)',
+      'Web vital INP on /stats: 600ms (poor)'
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { Logger, LogPackage } from '../types';
+
+/**
+ * Core Web Vitals and the loading metrics reported alongside them
+ */
+export type WebVitalName = 'CLS' | 'FCP' | 'INP' | 'LCP' | 'TTFB';
+
+/**
+ * Rating buckets used by the web-vitals library
+ */
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+/**
+ * The fields this integration reads from a web-vitals metric
+ */
+export interface WebVitalMetric {
+  name: string;
+  value: number;
+  delta: number;
+  id: string;
+  navigationType?: string;
+}
+
+/**
+ * Signature of the web-vitals `onCLS`, `onINP`, ... functions (v3 and later)
+ */
+export type WebVitalSubscriber = (
+  callback: (metric: WebVitalMetric) => void,
+  options?: { reportAllChanges?: boolean }
+) => void;
+
+/**
+ * The web-vitals functions to subscribe to, passed in so the middleware does not depend on the library.
+ * Typically `import { onCLS, onFCP, onINP, onLCP, onTTFB } from 'web-vitals'`.
+ */
+export interface WebVitalSources {
+  onCLS?: WebVitalSubscriber;
+  onFCP?: WebVitalSubscriber;
+  onINP?: WebVitalSubscriber;
+  onLCP?: WebVitalSubscriber;
+  onTTFB?: WebVitalSubscriber;
+}
+
+/**
+ * Options for web vitals reporting
+ */
+export interface WebVitalsOptions {
+  logger: Logger;
+  sources: WebVitalSources;
+  /** Route active when reporting starts; defaults to the first setRoute() call, else window.location.pathname */
+  route?: string;
+  /** Package metrics are logged under (default 'page') */
+  packageName?: LogPackage;
+}
+
+/**
+ * Handle for attributing metrics to routes in a single-page application
+ */
+export interface WebVitalsReporter {
+  /** Report CLS and INP collected on the previous route and start collecting for this one */
+  setRoute(route: string): void;
+  /** Report what has been collected for the current route so far */
+  flush(): void;
+  /** Flush and ignore further metrics */
+  stop(): void;
+}
+
+/**
+ * Upper bounds of the 'good' and 'needs-improvement' ratings, from web.dev
+ */
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  INP: [200, 500],
+  LCP: [2500, 4000],
+  TTFB: [800, 1800]
+};
+
+/**
+ * Rate a metric value using the web.dev thresholds
+ */
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const [good, needsImprovement] = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) {
+    return 'good';
+  }
+  return value <= needsImprovement ? 'needs-improvement' : 'poor';
+}
+
+/**
+ * Log web vitals as structured entries, one per metric and route.
+ * FCP, LCP and TTFB describe the initial load and are attributed to the landing route.
+ * CLS and INP keep changing while the app runs, so layout shifts and the slowest interaction
+ * are collected per route and reported when the route changes or the page is hidden.
+ * Poor values are logged at warn, everything else at info.
+ */
+export function reportWebVitals(options: WebVitalsOptions): WebVitalsReporter {
+  const { logger, sources, packageName = 'page' } = options;
+  let route = options.route;
+  let landingRoute = options.route;
+  let routeCls: number | undefined;
+  let routeInp: number | undefined;
+  let stopped = false;
+
+  const currentRoute = () => route ?? (typeof window !== 'undefined' ? window.location.pathname : '/');
+
+  const emit = (name: WebVitalName, value: number, metricRoute: string, metric?: WebVitalMetric) => {
+    const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value);
+    const rating = rateWebVital(name, value);
+    const unit = name === 'CLS' ? '' : 'ms';
+
+    void logger[rating === 'poor' ? 'warn' : 'info'](
+      packageName,
+      `Web vital ${name} on ${metricRoute}: ${rounded}${unit} (${rating})`,
+      {
+        data: {
+          metric: name,
+          value: rounded,
+          rating,
+          route: metricRoute,
+          ...(metric ? { metricId: metric.id, navigationType: metric.navigationType } : {})
+        }
+      }
+    );
+  };
+
+  const reportLoadMetric = (name: WebVitalName) => (metric: WebVitalMetric) => {
+    if (!stopped) {
+      emit(name, metric.value, landingRoute ?? currentRoute(), metric);
+    }
+  };
+
+  const flush = () => {
+    if (routeCls !== undefined) {
+      emit('CLS', routeCls, currentRoute());
+    }
+    if (routeInp !== undefined) {
+      emit('INP', routeInp, currentRoute());
+    }
+    routeCls = undefined;
+    routeInp = undefined;
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      flush();
+    }
+  };
+
+  sources.onFCP?.(reportLoadMetric('FCP'));
+  sources.onLCP?.(reportLoadMetric('LCP'));
+  sources.onTTFB?.(reportLoadMetric('TTFB'));
+  sources.onCLS?.(metric => {
+    if (!stopped) {
+      routeCls = (routeCls ?? 0) + metric.delta;
+    }
+  }, { reportAllChanges: true });
+  sources.onINP?.(metric => {
+    // INP is page-wide; a value that grows while a route is active came from an interaction on it
+    if (!stopped) {
+      routeInp = Math.max(routeInp ?? 0, metric.value);
+    }
+  }, { reportAllChanges: true });
+
+  if (typeof document !== 'undefined' && document.addEventListener) {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return {
+    setRoute(nextRoute: string) {
+      if (nextRoute === route) {
+        return;
+      }
+      if (route !== undefined) {
+        flush();
+      }
+      route = nextRoute;
+      landingRoute = landingRoute ?? nextRoute;
+    },
+    flush,
+    stop() {
+      flush();
+      stopped = true;
+      if (typeof document !== 'undefined' && document.removeEventListener) {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { isLevelEnabled, isLogLevel, LOG_LEVEL_SESSION_KEY, readLevelFromQuery } from './levels';
+
+describe('isLevelEnabled', () => {
+  it('passes levels at or above the threshold, and everything without one', () => {
+    expect(isLevelEnabled('warn', 'warn')).toBe(true);
+    expect(isLevelEnabled('fatal', 'warn')).toBe(true);
+    expect(isLevelEnabled('info', 'warn')).toBe(false);
+    expect(isLevelEnabled('debug')).toBe(true);
+  });
+
+  it('recognizes only the supported levels', () => {
+    expect(isLogLevel('error')).toBe(true);
+    expect(isLogLevel('trace')).toBe(false);
+    expect(isLogLevel('toString')).toBe(false);
+  });
+});
+
+describe('readLevelFromQuery', () => {
+  const storage = new Map<string, string>();
+  const setSearch = (search: string) => {
+    (globalThis as Record<string, unknown>).window = {
+      location: { search },
+      sessionStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key)
+      }
+    };
+  };
+
+  afterEach(() => {
+    delete (globalThis as Record<string, unknown>).window;
+    storage.clear();
+  });
+
+  it('returns undefined outside the browser', () => {
+    expect(readLevelFromQuery()).toBeUndefined();
+  });
+
+  it('remembers a level from the query string until reset', () => {
+    setSearch('?logLevel=debug');
+    expect(readLevelFromQuery()).toBe('debug');
+    expect(storage.get(LOG_LEVEL_SESSION_KEY)).toBe('debug');
+
+    setSearch('');
+    expect(readLevelFromQuery()).toBe('debug');
+
+    setSearch('?logLevel=reset');
+    expect(readLevelFromQuery()).toBeUndefined();
+    setSearch('?logLevel=loud');
+    expect(readLevelFromQuery()).toBeUndefined();
+  });
+});
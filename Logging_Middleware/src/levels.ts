@@ -0,0 +1,65 @@
+import { LogLevel } from './types';
+
+/**
+ * Numeric severity of each log level, lowest first
+ */
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  fatal: 50
+};
+
+/**
+ * Check whether an entry at `level` passes a `minLevel` threshold
+ */
+export function isLevelEnabled(level: LogLevel, minLevel?: LogLevel): boolean {
+  if (!minLevel) {
+    return true;
+  }
+  return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[minLevel];
+}
+
+/**
+ * Check whether a value is one of the supported log levels
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOG_LEVEL_PRIORITY, value);
+}
+
+/**
+ * Session storage key remembering a level picked through the query string
+ */
+export const LOG_LEVEL_SESSION_KEY = 'logging-middleware:logLevel';
+
+/**
+ * Read a level override from the `?logLevel=` query parameter in the browser.
+ * The value is remembered for the rest of the browser session so it survives navigation;
+ * `?logLevel=reset` forgets it. Returns undefined outside the browser or when no override is set.
+ */
+export function readLevelFromQuery(paramName: string = 'logLevel'): LogLevel | undefined {
+  if (typeof window === 'undefined' || !window.location) {
+    return undefined;
+  }
+
+  try {
+    const requested = new URLSearchParams(window.location.search).get(paramName);
+
+    if (requested === 'reset') {
+      window.sessionStorage?.removeItem(LOG_LEVEL_SESSION_KEY);
+      return undefined;
+    }
+
+    if (isLogLevel(requested)) {
+      window.sessionStorage?.setItem(LOG_LEVEL_SESSION_KEY, requested);
+      return requested;
+    }
+
+    const remembered = window.sessionStorage?.getItem(LOG_LEVEL_SESSION_KEY);
+    return isLogLevel(remembered) ? remembered : undefined;
+  } catch {
+    // Storage can throw in privacy modes; the override is best effort
+    return undefined;
+  }
+}
@@ -0,0 +1,106 @@
+import { LoggingMiddleware } from './logger';
+import { MemoryTransport } from './transports/memory';
+import { LogEntry, LogResponse, Transport } from './types';
+
+const createLogger = (transports: Transport[]) =>
+  new LoggingMiddleware({ defaultStack: 'frontend', transports });
+
+describe('LoggingMiddleware transports', () => {
+  it('fans every entry out to each transport whose level admits it', async () => {
+    const all = new MemoryTransport();
+    const errors = new MemoryTransport({ level: 'error' });
+    const logger = createLogger([all, errors]);
+
+    await logger.info('api', 'Loaded');
+    await logger.error('api', 'Failed');
+
+    expect(all.entries.map(entry => entry.message)).toEqual(['Loaded', 'Failed']);
+    expect(errors.entries.map(entry => entry.message)).toEqual(['Failed']);
+  });
+
+  it('resolves with the response of the transport that returned one', async () => {
+    const response: LogResponse = { logID: 'log-1', message: 'log created successfully' };
+    const api: Transport = { name: 'api', log: async () => response };
+    const logger = createLogger([new MemoryTransport(), api]);
+
+    expect(await logger.info('api', 'Sent')).toEqual(response);
+  });
+
+  it('keeps delivering to the other transports when one throws', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const memory = new MemoryTransport();
+    const broken: Transport = { name: 'broken', log: async () => { throw new Error('Disk full'); } };
+    const logger = createLogger([broken, memory]);
+
+    expect(await logger.warn('api', 'Still logged')).toBeNull();
+
+    expect(memory.entries).toHaveLength(1);
+    expect(consoleError).toHaveBeenCalledWith('Log transport "broken" failed:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('adds and removes transports at runtime', async () => {
+    const first = new MemoryTransport();
+    const logger = createLogger([first]);
+    const received: LogEntry[] = [];
+    logger.addTransport({ name: 'extra', log: async entry => { received.push(entry); } });
+
+    await logger.info('api', 'Both');
+    logger.removeTransport('memory');
+    await logger.info('api', 'Extra only');
+
+    expect(first.entries.map(entry => entry.message)).toEqual(['Both']);
+    expect(received.map(entry => entry.message)).toEqual(['Both', 'Extra only']);
+    expect(logger.getTransports().map(transport => transport.name)).toEqual(['extra']);
+  });
+
+  it('flushes and closes every transport, then drops new entries', async () => {
+    const flush = jest.fn(async () => undefined);
+    const close = jest.fn(async () => undefined);
+    const logger = createLogger([{ name: 'closable', log: async () => undefined, flush, close }]);
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await logger.close();
+    await logger.info('api', 'Too late');
+
+    expect(flush).toHaveBeenCalled();
+    expect(close).toHaveBeenCalled();
+    expect(logger.getStats().byOutcome.dropped).toBe(1);
+    consoleWarn.mockRestore();
+  });
+
+  it('requires an API URL and token when no transports are given', () => {
+    expect(() => new LoggingMiddleware({ defaultStack: 'frontend' }))
+      .toThrow('LoggerConfig requires apiUrl and an accessToken or tokenProvider');
+  });
+});
+
+describe('LoggingMiddleware levels', () => {
+  it('drops entries below the minimum level', async () => {
+    const memory = new MemoryTransport();
+    const logger = new LoggingMiddleware({ defaultStack: 'frontend', transports: [memory], minLevel: 'warn' });
+
+    await logger.info('api', 'Hidden');
+    await logger.warn('api', 'Shown');
+
+    expect(memory.entries.map(entry => entry.message)).toEqual(['Shown']);
+    expect(logger.getStats().byOutcome.filtered).toBe(1);
+  });
+
+  it('lets package overrides win over stack overrides and the global level', () => {
+    const logger = createLogger([new MemoryTransport()]);
+    logger.setLevel('error');
+    logger.setLevel('warn', { stack: 'frontend' });
+    logger.setLevel('debug', { package: 'api' });
+
+    expect(logger.isEnabled('debug', 'api')).toBe(true);
+    expect(logger.isEnabled('info', 'page')).toBe(false);
+    expect(logger.isEnabled('warn', 'page')).toBe(true);
+    expect(logger.isEnabled('warn', 'db', 'backend')).toBe(false);
+
+    logger.clearLevel({ package: 'api' });
+    expect(logger.getLevel('api')).toBe('warn');
+    logger.clearLevel({ stack: 'frontend' });
+    expect(logger.getLevel('api')).toBe('error');
+  });
+});
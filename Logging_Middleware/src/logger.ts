@@ -1,164 +1,434 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Logger, LoggerConfig, LogLevel, LogStack, LogPackage, LogEntry, LogResponse } from './types';
+import {
+  Logger,
+  LoggerConfig,
+  LogLevel,
+  LogStack,
+  LogPackage,
+  LogEntry,
+  LogResponse,
+  LogContext,
+  LogBindings,
+  LevelScope,
+  Transport
+} from './types';
+import { ConsoleTransport } from './transports/console';
+import { HttpTransport } from './transports/http';
+import { isLevelEnabled } from './levels';
+import { ChildLogger } from './child';
+import { CircuitBreaker } from './circuitBreaker';
+import { generateId } from './ids';
+import { createRedactor, Redactor } from './redaction';
+import { Sampler, SuppressionSummary } from './sampling';
+import { createValidator, ValidationResult, Validator } from './validation';
+import { LoggerStats, LogStatsCollector } from './stats';
+import { Span, startSpan, timeOperation, TimerOptions } from './timing';
 
 /**
  * Core logging middleware implementation
  */
 export class LoggingMiddleware implements Logger {
-  private apiClient: AxiosInstance;
   private config: LoggerConfig;
+  private transports: Transport[];
+  private redactor: Redactor | null;
+  private sampler: Sampler | null;
+  private validator: Validator | null;
+  private reportedIssues = new Set<string>();
+  private pending = new Set<Promise<LogResponse | null>>();
+  private stats: LogStatsCollector;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
 
   constructor(config: LoggerConfig) {
     this.config = {
       enableConsoleLog: true,
       retryAttempts: 3,
       retryDelay: 1000,
-      ...config
+      ...config,
+      correlationId: config.correlationId ?? generateId(),
+      packageLevels: { ...config.packageLevels },
+      stackLevels: { ...config.stackLevels }
     };
 
-    this.apiClient = axios.create({
-      baseURL: this.config.apiUrl,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.accessToken}`
-      },
-      timeout: 10000
-    });
+    this.stats = this.config.stats ?? new LogStatsCollector();
+    this.redactor = this.config.redaction ? createRedactor(this.config.redaction) : null;
+    this.validator = this.config.validation === false ? null : createValidator(this.config.validation);
+    this.sampler = this.config.sampling
+      ? new Sampler(this.config.sampling, summaries => this.logSuppressed(summaries))
+      : null;
+
+    this.transports = this.config.transports
+      ? [...this.config.transports]
+      : this.createDefaultTransports();
+
+    if (this.config.statsReportInterval) {
+      this.statsTimer = setInterval(() => this.reportStats(), this.config.statsReportInterval);
+      // Do not keep a Node process alive just to report stats
+      (this.statsTimer as { unref?: () => void }).unref?.();
+    }
   }
 
   /**
-   * Core logging function that sends logs to the test server
+   * Core logging function that fans the entry out to every transport.
+   * Resolves with the log API response when an HTTP transport accepted the entry.
    */
-  async log(stack: LogStack, level: LogLevel, packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    const logEntry: LogEntry = {
+  async log(
+    stack: LogStack,
+    level: LogLevel,
+    packageName: LogPackage,
+    message: string,
+    context?: LogContext
+  ): Promise<LogResponse | null> {
+    if (this.validator) {
+      const result = this.validator({ stack, level, package: packageName, message }, this.config.defaultStack);
+      this.reportIssues(result);
+      const call = result.call;
+      if (!call) {
+        this.stats.recordRejected();
+        return null;
+      }
+      ({ stack, level, package: packageName, message } = call);
+    }
+
+    if (!this.isEnabled(level, packageName, stack)) {
+      this.stats.recordCall(level, packageName, 'filtered');
+      return null;
+    }
+
+    const decision = this.sampler && !this.closed ? this.sampler.decide(stack, level, packageName) : 'keep';
+    if (decision !== 'keep') {
+      this.stats.recordCall(level, packageName, decision);
+      return null;
+    }
+
+    const rawEntry: LogEntry = {
+      id: generateId(),
       stack,
       level,
       package: packageName,
-      message
+      message,
+      context: {
+        ...context,
+        timestamp: context?.timestamp ?? new Date(),
+        correlationId: context?.correlationId ?? this.config.correlationId
+      }
     };
+    const logEntry = this.redactor ? this.redactor(rawEntry) : rawEntry;
 
-    // Console logging for development
-    if (this.config.enableConsoleLog) {
-      this.logToConsole(logEntry);
+    if (this.closed) {
+      this.stats.recordCall(level, packageName, 'dropped');
+      if (this.config.enableConsoleLog) {
+        console.warn('Logger is closed, dropping log entry:', logEntry);
+      }
+      return null;
     }
 
-    // Send to API with retry logic
-    return await this.sendLogToAPI(logEntry);
+    this.stats.recordCall(level, packageName, 'logged');
+    return this.track(this.dispatch(logEntry));
   }
 
   /**
    * Debug level logging
    */
-  async debug(packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    return this.log(this.config.defaultStack, 'debug', packageName, message);
+  async debug(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.config.defaultStack, 'debug', packageName, message, context);
   }
 
   /**
    * Info level logging
    */
-  async info(packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    return this.log(this.config.defaultStack, 'info', packageName, message);
+  async info(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.config.defaultStack, 'info', packageName, message, context);
   }
 
   /**
    * Warning level logging
    */
-  async warn(packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    return this.log(this.config.defaultStack, 'warn', packageName, message);
+  async warn(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.config.defaultStack, 'warn', packageName, message, context);
   }
 
   /**
    * Error level logging
    */
-  async error(packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    return this.log(this.config.defaultStack, 'error', packageName, message);
+  async error(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.config.defaultStack, 'error', packageName, message, context);
   }
 
   /**
    * Fatal level logging
    */
-  async fatal(packageName: LogPackage, message: string): Promise<LogResponse | null> {
-    return this.log(this.config.defaultStack, 'fatal', packageName, message);
+  async fatal(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null> {
+    return this.log(this.config.defaultStack, 'fatal', packageName, message, context);
   }
 
   /**
-   * Send log entry to the API with retry logic
+   * Create a logger that adds `bindings` to every entry, e.g.
+   * `logger.child({ component: 'RedirectHandler', shortCode })`.
+   * Bind a `correlationId` to trace one request separately from the rest of the session.
    */
-  private async sendLogToAPI(logEntry: LogEntry): Promise<LogResponse | null> {
-    let lastError: Error | null = null;
+  child(bindings: LogBindings): Logger {
+    return new ChildLogger(this, this.config.defaultStack, bindings);
+  }
 
-    for (let attempt = 1; attempt <= this.config.retryAttempts!; attempt++) {
-      try {
-        const response = await this.apiClient.post('/logs', logEntry);
-        
-        if (response.status === 200 && response.data) {
-          return response.data as LogResponse;
-        }
-      } catch (error) {
-        lastError = error as Error;
-        
-        if (this.config.enableConsoleLog) {
-          console.warn(`Log API attempt ${attempt}/${this.config.retryAttempts} failed:`, error);
-        }
+  /**
+   * Get the circuit breaker guarding the log API, to show a "logging degraded" state
+   * via `isDegraded()`, `getMetrics()` and `onStateChange()`
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.config.circuitBreaker;
+  }
 
-        // Don't retry on certain error types
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError;
-          if (axiosError.response?.status === 401 || axiosError.response?.status === 403) {
-            if (this.config.enableConsoleLog) {
-              console.error('Authentication failed for logging API. Check your access token.');
-            }
-            break;
-          }
-        }
+  /**
+   * Start a timer that logs duration, outcome and span IDs when ended.
+   * Nest spans with `span.startTimer()` or the `parent` option.
+   */
+  startTimer(name: string, options?: TimerOptions): Span {
+    return startSpan(this, name, options);
+  }
 
-        // Wait before retry (except on last attempt)
-        if (attempt < this.config.retryAttempts!) {
-          await this.delay(this.config.retryDelay! * attempt);
-        }
-      }
+  /**
+   * Time an operation and log its duration and outcome; errors are logged and rethrown
+   */
+  time<T>(name: string, operation: (span: Span) => T | Promise<T>, options?: TimerOptions): Promise<T> {
+    return timeOperation(this, name, operation, options);
+  }
+  /**
+   * Get counters of log calls per level, package and outcome, log API requests and
+   * latency percentiles, and the number of entries waiting in batch queues
+   */
+  getStats(): LoggerStats {
+    const queueDepth = this.transports.reduce(
+      (depth, transport) => depth + (transport instanceof HttpTransport ? transport.getQueueDepth() : 0),
+      0
+    );
+    return this.stats.snapshot(queueDepth);
+  }
+
+  /**
+   * Get the correlation ID attached to entries that do not carry their own
+   */
+  getCorrelationId(): string {
+    return this.config.correlationId!;
+  }
+
+  /**
+   * Change the minimum level at runtime, globally or for one package or stack.
+   * Passing a scope only overrides that scope; the global call leaves scoped overrides in place.
+   */
+  setLevel(level: LogLevel, scope?: LevelScope): void {
+    if (scope && 'package' in scope) {
+      this.config.packageLevels![scope.package] = level;
+    } else if (scope && 'stack' in scope) {
+      this.config.stackLevels![scope.stack] = level;
+    } else {
+      this.config.minLevel = level;
+    }
+  }
+
+  /**
+   * Remove a scoped level override so the package or stack falls back to the wider threshold
+   */
+  clearLevel(scope: LevelScope): void {
+    if ('package' in scope) {
+      delete this.config.packageLevels![scope.package];
+    } else {
+      delete this.config.stackLevels![scope.stack];
+    }
+  }
+
+  /**
+   * Resolve the threshold that applies to a package on a stack
+   */
+  getLevel(packageName?: LogPackage, stack: LogStack = this.config.defaultStack): LogLevel | undefined {
+    return (packageName && this.config.packageLevels![packageName])
+      ?? this.config.stackLevels![stack]
+      ?? this.config.minLevel;
+  }
+
+  /**
+   * Check whether an entry would be logged, so callers can skip building expensive messages
+   */
+  isEnabled(level: LogLevel, packageName?: LogPackage, stack: LogStack = this.config.defaultStack): boolean {
+    return isLevelEnabled(level, this.getLevel(packageName, stack));
+  }
+
+  /**
+   * Attach another transport
+   */
+  addTransport(transport: Transport): void {
+    this.transports.push(transport);
+  }
+
+  /**
+   * Detach every transport with the given name
+   */
+  removeTransport(name: string): void {
+    this.transports = this.transports.filter(transport => transport.name !== name);
+  }
+
+  /**
+   * Get the attached transports
+   */
+  getTransports(): Transport[] {
+    return [...this.transports];
+  }
+
+  /**
+   * Wait until every transport has delivered what it is holding, including sends already in flight
+   */
+  async flush(): Promise<void> {
+    await Promise.all([
+      ...this.transports.map(transport => transport.flush?.()),
+      ...this.pending
+    ]);
+  }
+
+  /**
+   * Flush remaining entries, close every transport and stop accepting new entries
+   */
+  async close(): Promise<void> {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
     }
+    this.sampler?.close();
+    this.closed = true;
+    await this.flush();
+    await Promise.all(this.transports.map(transport => transport.close?.()));
+  }
 
-    // Log the failure locally if all retries failed
+  /**
+   * Build the HTTP and console transports described by the flat configuration
+   */
+  private createDefaultTransports(): Transport[] {
+    if (!this.config.apiUrl || (!this.config.accessToken && !this.config.tokenProvider)) {
+      throw new Error('LoggerConfig requires apiUrl and an accessToken or tokenProvider when no transports are given');
+    }
+
+    const transports: Transport[] = [
+      new HttpTransport({
+        apiUrl: this.config.apiUrl,
+        accessToken: this.config.accessToken,
+        tokenProvider: this.config.tokenProvider,
+        logFailures: this.config.enableConsoleLog,
+        retryAttempts: this.config.retryAttempts,
+        retryDelay: this.config.retryDelay,
+        backoff: this.config.backoff,
+        circuitBreaker: this.config.circuitBreaker,
+        enableBatching: this.config.enableBatching,
+        batchSize: this.config.batchSize,
+        batchInterval: this.config.batchInterval,
+        bulkEndpoint: this.config.bulkEndpoint,
+        contextMode: this.config.contextMode,
+        stats: this.stats
+      })
+    ];
+
+    // Console logging for development
     if (this.config.enableConsoleLog) {
-      console.error('Failed to send log to API after all retries:', lastError?.message);
-      console.error('Original log entry:', logEntry);
+      transports.unshift(new ConsoleTransport());
     }
 
-    return null;
+    return transports;
   }
 
   /**
-   * Log to console with proper formatting
+   * Warn about a problematic log call, once per distinct set of problems
    */
-  private logToConsole(logEntry: LogEntry): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] [${logEntry.stack.toUpperCase()}] [${logEntry.level.toUpperCase()}] [${logEntry.package}] ${logEntry.message}`;
+  private reportIssues(result: ValidationResult): void {
+    const validation = this.config.validation || {};
+    if (result.issues.length === 0 || validation.warn === false) {
+      return;
+    }
 
-    switch (logEntry.level) {
-      case 'debug':
-        console.debug(logMessage);
-        break;
-      case 'info':
-        console.info(logMessage);
-        break;
-      case 'warn':
-        console.warn(logMessage);
-        break;
-      case 'error':
-      case 'fatal':
-        console.error(logMessage);
-        break;
-      default:
-        console.log(logMessage);
+    const description = result.issues.join('; ');
+    if (!this.reportedIssues.has(description)) {
+      // Bound the memory used by callers that log many different bad messages
+      if (this.reportedIssues.size >= 100) {
+        this.reportedIssues.clear();
+      }
+      this.reportedIssues.add(description);
+      console.warn(`Invalid log call ${result.call ? 'corrected' : 'rejected'}: ${description}`);
     }
   }
 
   /**
-   * Utility function for delays
+   * Fan an entry out to every transport whose level admits it
+   */
+  private async dispatch(logEntry: LogEntry): Promise<LogResponse | null> {
+    const results = await Promise.all(
+      this.transports
+        .filter(transport => isLevelEnabled(logEntry.level, transport.level))
+        .map(transport => this.writeToTransport(transport, logEntry))
+    );
+
+    return results.find((result): result is LogResponse => !!result) ?? null;
+  }
+
+  /**
+   * Report entries dropped by sampling or rate limiting, one entry per stack, package and level.
+   * Summaries go straight to the transports so they are never sampled themselves.
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private logSuppressed(summaries: SuppressionSummary[]): void {
+    for (const summary of summaries) {
+      const total = summary.sampled + summary.rateLimited;
+      void this.track(this.dispatch({
+        id: generateId(),
+        stack: summary.stack,
+        level: summary.level,
+        package: summary.packageName,
+        message: `Suppressed ${total} similar ${summary.level} messages`,
+        context: {
+          data: { sampled: summary.sampled, rateLimited: summary.rateLimited },
+          timestamp: new Date(),
+          correlationId: this.config.correlationId
+        }
+      }));
+    }
+  }
+
+  /**
+   * Log a summary of the counters as a regular entry
+   */
+  private reportStats(): void {
+    const stats = this.getStats();
+    const { byOutcome, api, queueDepth } = stats;
+    void this.info(
+      'utils',
+      `Logger stats: ${byOutcome.logged} logged, ${api.entriesSent} sent, ${api.entriesFailed} failed, ` +
+      `${byOutcome.filtered + byOutcome.sampled + byOutcome.rateLimited} suppressed, queue ${queueDepth}`,
+      {
+        data: {
+          ...byOutcome,
+          requests: api.requests,
+          retries: api.retries,
+          latencyP50: api.latency.p50,
+          latencyP99: api.latency.p99,
+          queueDepth
+        }
+      }
+    );
+  }
+
+  /**
+   * Remember a delivery in progress so flush() can wait for it
+   */
+  private track(delivery: Promise<LogResponse | null>): Promise<LogResponse | null> {
+    this.pending.add(delivery);
+    void delivery.then(() => this.pending.delete(delivery));
+    return delivery;
+  }
+
+  /**
+   * Hand an entry to one transport without letting its failure affect the others
+   */
+  private async writeToTransport(transport: Transport, logEntry: LogEntry): Promise<LogResponse | null> {
+    try {
+      return (await transport.log(logEntry)) ?? null;
+    } catch (error) {
+      console.error(`Log transport "${transport.name}" failed:`, error);
+      return null;
+    }
   }
 
   /**
@@ -166,13 +436,21 @@ export class LoggingMiddleware implements Logger {
    */
   updateAccessToken(newToken: string): void {
     this.config.accessToken = newToken;
-    this.apiClient.defaults.headers['Authorization'] = `Bearer ${newToken}`;
+    this.transports.forEach(transport => {
+      if (transport instanceof HttpTransport) {
+        transport.setAccessToken(newToken);
+      }
+    });
   }
 
   /**
    * Get current configuration
    */
   getConfig(): LoggerConfig {
-    return { ...this.config };
+    return {
+      ...this.config,
+      packageLevels: { ...this.config.packageLevels },
+      stackLevels: { ...this.config.stackLevels }
+    };
   }
-} 
\ No newline at end of file
+}
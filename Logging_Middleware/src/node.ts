@@ -0,0 +1,18 @@
+// Node-only entry point. Import from here in backend code; these modules depend on Node built-ins.
+export * from './index';
+
+export { FileTransport } from './transports/file';
+export type { FileTransportOptions } from './transports/file';
+export { FileOutboxStore } from './outbox/fileStore';
+export { createRequestLogger, withRequestLogging } from './integrations/requestLogger';
+export type { RequestLoggerOptions, RequestLoggingMiddleware, LoggedRequest } from './integrations/requestLogger';
+export { installProcessErrorHandlers } from './integrations/processErrors';
+export type { ProcessErrorHandlerOptions } from './integrations/processErrors';
+export { installProcessFlush } from './integrations/processFlush';
+export type { ProcessFlushOptions } from './integrations/processFlush';
+export { createMetricsHandler } from './integrations/metrics';
+export type { MetricsHandlerOptions } from './integrations/metrics';
+export { LogCollector, JsonLinesLogStore, matchesLogFilter, parseTimeBound, entryTime } from './collector';
+export type { LogCollectorOptions, StoredLogEntry, LogFilter } from './collector';
+export { MockLogServer } from './testing/mockLogServer';
+export type { MockLogServerOptions, MockLogResponse, MockLogRequest } from './testing/mockLogServer';
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { OutboxRecord, OutboxStore } from './outbox';
+
+/**
+ * Keeps the outbox in a JSON file so it survives restarts (Node only)
+ */
+export class FileOutboxStore implements OutboxStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as OutboxRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(records: OutboxRecord[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(records), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,6 @@
+// Browser-safe outbox pieces. FileOutboxStore is exported from '../node'.
+export { LogOutbox } from './outbox';
+export type { OutboxRecord, OutboxStore, OutboxEvictionPolicy, LogOutboxOptions } from './outbox';
+export { MemoryOutboxStore } from './memoryStore';
+export { LocalStorageOutboxStore } from './localStorageStore';
+export { IndexedDbOutboxStore, createBrowserOutboxStore } from './indexedDbStore';
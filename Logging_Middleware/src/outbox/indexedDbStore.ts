@@ -0,0 +1,73 @@
+import { OutboxRecord, OutboxStore } from './outbox';
+import { LocalStorageOutboxStore } from './localStorageStore';
+
+/**
+ * Keeps the outbox in IndexedDB, which has far more room than localStorage (browser only)
+ */
+export class IndexedDbOutboxStore implements OutboxStore {
+  private databaseName: string;
+  private storeName = 'outbox';
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = 'logging-middleware-outbox') {
+    this.databaseName = databaseName;
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    if (typeof indexedDB === 'undefined') {
+      return [];
+    }
+
+    const db = await this.open();
+    const records = await new Promise<OutboxRecord[]>((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).getAll();
+      request.onsuccess = () => resolve(request.result as OutboxRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+
+    return records.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async save(records: OutboxRecord[]): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      store.clear();
+      records.forEach(record => store.put(record));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Pick the most capable outbox store available in this browser
+ */
+export function createBrowserOutboxStore(): OutboxStore | null {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDbOutboxStore();
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageOutboxStore();
+  }
+  return null;
+}
@@ -0,0 +1,33 @@
+import { OutboxRecord, OutboxStore } from './outbox';
+
+/**
+ * Keeps the outbox in `localStorage` (browser only)
+ */
+export class LocalStorageOutboxStore implements OutboxStore {
+  private key: string;
+
+  constructor(key: string = 'logging-middleware:outbox') {
+    this.key = key;
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    if (typeof localStorage === 'undefined') {
+      return [];
+    }
+
+    const stored = localStorage.getItem(this.key);
+    return stored ? (JSON.parse(stored) as OutboxRecord[]) : [];
+  }
+
+  async save(records: OutboxRecord[]): Promise<void> {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    if (records.length === 0) {
+      localStorage.removeItem(this.key);
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(records));
+    }
+  }
+}
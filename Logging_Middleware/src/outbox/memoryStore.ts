@@ -0,0 +1,16 @@
+import { OutboxRecord, OutboxStore } from './outbox';
+
+/**
+ * Keeps the outbox in memory. Survives outages, but not restarts.
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private records: OutboxRecord[] = [];
+
+  async load(): Promise<OutboxRecord[]> {
+    return [...this.records];
+  }
+
+  async save(records: OutboxRecord[]): Promise<void> {
+    this.records = [...records];
+  }
+}
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileOutboxStore } from './fileStore';
+import { MemoryOutboxStore } from './memoryStore';
+import { LogOutbox, OutboxRecord } from './outbox';
+
+const record = (id: string): OutboxRecord => ({
+  id,
+  entry: { id, stack: 'backend', level: 'error', package: 'db', message: `Entry ${id}` },
+  queuedAt: 0
+});
+
+const ids = (records: OutboxRecord[]) => records.map(queued => queued.id);
+
+describe('LogOutbox', () => {
+  it('queues records oldest first and ignores IDs already queued', async () => {
+    const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+
+    await outbox.add([record('a'), record('b')]);
+    await outbox.add([record('b'), record('c')]);
+
+    expect(ids(await outbox.peek())).toEqual(['a', 'b', 'c']);
+    expect(ids(await outbox.peek(2))).toEqual(['a', 'b']);
+  });
+
+  it('removes only delivered records', async () => {
+    const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+    await outbox.add([record('a'), record('b'), record('c')]);
+
+    await outbox.remove(['a', 'c']);
+
+    expect(ids(await outbox.peek())).toEqual(['b']);
+    await outbox.clear();
+    expect(await outbox.size()).toBe(0);
+  });
+
+  it('evicts the oldest records by default when full', async () => {
+    const outbox = new LogOutbox({ store: new MemoryOutboxStore(), maxEntries: 2 });
+
+    await expect(outbox.add([record('a'), record('b'), record('c')])).resolves.toBe(1);
+    expect(ids(await outbox.peek())).toEqual(['b', 'c']);
+  });
+
+  it('keeps the oldest records with the drop-newest policy', async () => {
+    const outbox = new LogOutbox({ store: new MemoryOutboxStore(), maxEntries: 2, evictionPolicy: 'drop-newest' });
+
+    await outbox.add([record('a'), record('b'), record('c')]);
+    expect(ids(await outbox.peek())).toEqual(['a', 'b']);
+  });
+
+  it('applies concurrent changes in order', async () => {
+    const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+
+    await Promise.all([outbox.add([record('a')]), outbox.add([record('b')]), outbox.remove(['a'])]);
+    expect(ids(await outbox.peek())).toEqual(['b']);
+  });
+
+  it('survives a restart with a file store', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    const filePath = path.join(directory, 'nested', 'outbox.json');
+    try {
+      await new LogOutbox({ store: new FileOutboxStore(filePath) }).add([record('a')]);
+
+      const reloaded = new LogOutbox({ store: new FileOutboxStore(filePath) });
+      expect(await reloaded.peek()).toEqual([record('a')]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { SerializedLogEntry } from '../types';
+
+/**
+ * Entry waiting in the outbox for redelivery
+ */
+export interface OutboxRecord {
+  /** Client-generated entry ID, used to deduplicate */
+  id: string;
+  /** Request body shape exactly as it will be sent */
+  entry: SerializedLogEntry;
+  /** Epoch milliseconds when the entry was first queued */
+  queuedAt: number;
+}
+
+/**
+ * Persistence backend for the outbox. Stores hold the whole queue as one snapshot.
+ */
+export interface OutboxStore {
+  load(): Promise<OutboxRecord[]>;
+  save(records: OutboxRecord[]): Promise<void>;
+}
+
+/**
+ * Which entries to discard when the outbox is full
+ */
+export type OutboxEvictionPolicy = 'drop-oldest' | 'drop-newest';
+
+/**
+ * Options for the outbox
+ */
+export interface LogOutboxOptions {
+  store: OutboxStore;
+  /** Maximum number of queued entries (default 1000) */
+  maxEntries?: number;
+  /** What to discard when maxEntries is exceeded (default 'drop-oldest') */
+  evictionPolicy?: OutboxEvictionPolicy;
+}
+
+/**
+ * Durable queue of entries the log API did not accept. Records are only removed once a
+ * resend succeeds, so delivery is at-least-once; the entry ID lets the server drop repeats.
+ */
+export class LogOutbox {
+  private store: OutboxStore;
+  private maxEntries: number;
+  private evictionPolicy: OutboxEvictionPolicy;
+  private records: OutboxRecord[] | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: LogOutboxOptions) {
+    this.store = options.store;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.evictionPolicy = options.evictionPolicy ?? 'drop-oldest';
+  }
+
+  /**
+   * Queue records, ignoring IDs that are already queued. Returns how many records were evicted.
+   */
+  async add(records: OutboxRecord[]): Promise<number> {
+    return this.update(current => {
+      const known = new Set(current.map(record => record.id));
+      const combined = [...current];
+      records.forEach(record => {
+        if (!known.has(record.id)) {
+          known.add(record.id);
+          combined.push(record);
+        }
+      });
+      const excess = Math.max(0, combined.length - this.maxEntries);
+
+      const kept = this.evictionPolicy === 'drop-oldest'
+        ? combined.slice(excess)
+        : combined.slice(0, combined.length - excess);
+      return { records: kept, result: excess };
+    });
+  }
+
+  /**
+   * Get up to `limit` of the oldest queued records without removing them
+   */
+  async peek(limit: number = Infinity): Promise<OutboxRecord[]> {
+    const records = await this.load();
+    return records.slice(0, limit);
+  }
+
+  /**
+   * Remove delivered records
+   */
+  async remove(ids: string[]): Promise<void> {
+    const delivered = new Set(ids);
+    await this.update(current => ({
+      records: current.filter(record => !delivered.has(record.id)),
+      result: undefined
+    }));
+  }
+
+  /**
+   * Number of queued records
+   */
+  async size(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  /**
+   * Discard every queued record
+   */
+  async clear(): Promise<void> {
+    await this.update(() => ({ records: [], result: undefined }));
+  }
+
+  private async load(): Promise<OutboxRecord[]> {
+    await this.pendingWrite;
+    return this.ensureLoaded();
+  }
+
+  private async ensureLoaded(): Promise<OutboxRecord[]> {
+    if (!this.records) {
+      try {
+        this.records = await this.store.load();
+      } catch (error) {
+        console.warn('Failed to load log outbox, starting empty:', error);
+        this.records = [];
+      }
+    }
+    return this.records;
+  }
+
+  /**
+   * Apply a change to the queue and persist it. Changes are serialized so concurrent
+   * callers never overwrite each other's snapshot.
+   */
+  private update<T>(change: (records: OutboxRecord[]) => { records: OutboxRecord[]; result: T }): Promise<T> {
+    const run = this.pendingWrite.then(async () => {
+      const { records, result } = change(await this.ensureLoaded());
+      this.records = records;
+      await this.store.save(records).catch(error => console.warn('Failed to persist log outbox:', error));
+      return result;
+    });
+
+    this.pendingWrite = run.then(() => undefined, () => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,213 @@
+import { LogContext, LogEntry } from './types';
+
+/**
+ * What happens to a sensitive value: dropped, replaced with a marker, or replaced with
+ * a stable hash so records can still be correlated without exposing the value
+ */
+export type RedactionAction = 'remove' | 'mask' | 'hash';
+
+/**
+ * Redact a context field by key. A plain key (`password`) matches at any depth,
+ * case-insensitively; a dotted path (`data.user.email`, `data.*.token`) matches from the
+ * context root, with `*` matching any single segment.
+ */
+export interface KeyRedactionRule {
+  key: string;
+  action?: RedactionAction;
+}
+
+/**
+ * Redact every match of a pattern inside string values, the message and error text
+ */
+export interface PatternRedactionRule {
+  pattern: RegExp;
+  action?: Exclude<RedactionAction, 'remove'>;
+  /** Keep the text matched by this capture group and redact only the rest, e.g. a query parameter name */
+  keepGroup?: number;
+}
+
+/**
+ * Built-in rule sets
+ */
+export type BuiltInRedaction = 'bearerTokens' | 'emails' | 'ips' | 'queryParams' | 'secretKeys';
+
+/**
+ * Options for the redaction stage
+ */
+export interface RedactionOptions {
+  keys?: Array<string | KeyRedactionRule>;
+  patterns?: PatternRedactionRule[];
+  /** Built-in rule sets to apply; true (default) enables all of them */
+  builtIns?: boolean | BuiltInRedaction[];
+  /** Query parameters whose values the 'queryParams' built-in redacts */
+  sensitiveQueryParams?: string[];
+  /** Action for rules that do not name one (default 'mask') */
+  defaultAction?: Exclude<RedactionAction, 'remove'>;
+  /** Salt mixed into hashes so they cannot be matched against hashes from other deployments */
+  hashSalt?: string;
+}
+
+/**
+ * Transforms an entry before any transport sees it
+ */
+export type Redactor = (entry: LogEntry) => LogEntry;
+
+export const REDACTED = '[REDACTED]';
+
+export const DEFAULT_SENSITIVE_QUERY_PARAMS = [
+  'token', 'key', 'password', 'secret', 'access_token', 'refresh_token', 'api_key', 'apikey', 'auth', 'signature', 'code'
+];
+
+const SECRET_KEYS = ['password', 'passwd', 'secret', 'token', 'accessToken', 'refreshToken', 'apiKey', 'authorization', 'cookie'];
+
+const BUILT_IN_PATTERNS: Record<Exclude<BuiltInRedaction, 'queryParams' | 'secretKeys'>, PatternRedactionRule[]> = {
+  bearerTokens: [
+    { pattern: /(\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi, keepGroup: 1 },
+    // Bare JWTs: three base64url segments, the first of which starts with a JSON object
+    { pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g }
+  ],
+  emails: [
+    { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g }
+  ],
+  ips: [
+    { pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+    { pattern: /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi }
+  ]
+};
+
+/**
+ * Stable, non-cryptographic 64-bit hash (two FNV-1a passes) rendered as hex.
+ * Good enough to correlate records; not meant to resist a determined attacker.
+ */
+export function hashValue(value: string, salt: string = ''): string {
+  const input = salt + value;
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ input.length;
+
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193) >>> 0;
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995) >>> 0;
+  }
+
+  return h1.toString(16).padStart(8, '0') + h2.toString(16).padStart(8, '0');
+}
+
+/**
+ * Build the redaction stage described by `options`
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+  const defaultAction = options.defaultAction ?? 'mask';
+  const builtIns: BuiltInRedaction[] = options.builtIns === false
+    ? []
+    : options.builtIns === true || options.builtIns === undefined
+      ? ['bearerTokens', 'emails', 'ips', 'queryParams', 'secretKeys']
+      : options.builtIns;
+
+  const keyRules: KeyRedactionRule[] = [
+    ...(builtIns.includes('secretKeys') ? SECRET_KEYS.map(key => ({ key })) : []),
+    ...(options.keys ?? []).map(rule => (typeof rule === 'string' ? { key: rule } : rule))
+  ];
+
+  const patternRules: PatternRedactionRule[] = [...(options.patterns ?? [])];
+  builtIns.forEach(name => {
+    if (name === 'queryParams') {
+      const names = (options.sensitiveQueryParams ?? DEFAULT_SENSITIVE_QUERY_PARAMS).map(escapeRegExp).join('|');
+      patternRules.push({ pattern: new RegExp(`([?&;](?:${names})=)[^&#\\s"']*`, 'gi'), keepGroup: 1 });
+    } else if (name !== 'secretKeys') {
+      patternRules.push(...BUILT_IN_PATTERNS[name]);
+    }
+  });
+
+  const replace = (value: string, action: RedactionAction): string =>
+    action === 'hash' ? `[hash:${hashValue(value, options.hashSalt)}]` : REDACTED;
+
+  const redactString = (text: string): string =>
+    patternRules.reduce((result, rule) => {
+      const action = rule.action ?? defaultAction;
+      return result.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        const kept = rule.keepGroup ? String(groups[rule.keepGroup - 1] ?? '') : '';
+        return kept + replace(match.slice(kept.length), action);
+      });
+    }, text);
+
+  const findKeyRule = (path: string[]): KeyRedactionRule | undefined => {
+    const key = path[path.length - 1].toLowerCase();
+    return keyRules.find(rule => {
+      if (!rule.key.includes('.')) {
+        return rule.key.toLowerCase() === key;
+      }
+      const segments = rule.key.split('.');
+      return segments.length === path.length
+        && segments.every((segment, index) => segment === '*' || segment === path[index]);
+    });
+  };
+
+  const redactError = (error: Error): Error => {
+    const copy = new Error(redactString(error.message));
+    copy.name = error.name;
+    copy.stack = error.stack ? redactString(error.stack) : undefined;
+    return copy;
+  };
+
+  // `ancestors` holds the objects on the current path, so cycles end instead of recursing forever
+  const redactValue = (value: unknown, path: string[], ancestors: WeakSet<object> = new WeakSet()): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if (value instanceof Error) {
+      return redactError(value);
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    ancestors.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((item, index) => redactValue(item, [...path, String(index)], ancestors));
+    } else {
+      // Maps, class instances and DTOs are walked like plain objects, since serialization reads their fields too
+      const entries: Array<[string, unknown]> = value instanceof Map
+        ? Array.from(value.entries()).map(([key, item]): [string, unknown] => [String(key), item])
+        : Object.entries(value as Record<string, unknown>);
+      const record: Record<string, unknown> = {};
+      entries.forEach(([key, item]) => {
+        const itemPath = [...path, key];
+        const rule = findKeyRule(itemPath);
+
+        if (!rule) {
+          record[key] = redactValue(item, itemPath, ancestors);
+        } else if ((rule.action ?? defaultAction) !== 'remove') {
+          const text = typeof item === 'string' ? item : JSON.stringify(item) ?? '';
+          record[key] = replace(text, rule.action ?? defaultAction);
+        }
+      });
+      result = record;
+    }
+
+    ancestors.delete(value);
+    return result;
+  };
+
+  return entry => {
+    const context: LogContext | undefined = entry.context && {
+      ...entry.context,
+      data: entry.context.data && (redactValue(entry.context.data, ['data']) as Record<string, unknown>),
+      error: entry.context.error && redactError(entry.context.error)
+    };
+
+    return {
+      ...entry,
+      message: redactString(entry.message),
+      context
+    };
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,101 @@
+import { createTestLogger } from './testing/testLogger';
+import { Sampler, SuppressionSummary, TokenBucket } from './sampling';
+
+describe('TokenBucket', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('allows a burst, then refills at the configured rate', () => {
+    jest.useFakeTimers();
+    const bucket = new TokenBucket({ ratePerSecond: 2, burst: 3 });
+
+    expect([1, 2, 3, 4].map(() => bucket.tryRemove())).toEqual([true, true, true, false]);
+    jest.advanceTimersByTime(500);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+});
+
+describe('Sampler', () => {
+  let random: jest.SpyInstance;
+  let summaries: SuppressionSummary[][];
+
+  beforeEach(() => {
+    random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    summaries = [];
+  });
+
+  afterEach(() => random.mockRestore());
+
+  it('applies package rates before level rates before the default rate', () => {
+    const sampler = new Sampler({
+      sampleRate: 0.9,
+      levelSampleRates: { debug: 0.1 },
+      packageSampleRates: { utils: { debug: 0.8 }, page: 0.2 }
+    }, batch => summaries.push(batch));
+
+    expect(sampler.decide('frontend', 'debug', 'utils')).toBe('keep');
+    expect(sampler.decide('frontend', 'info', 'page')).toBe('sampled');
+    expect(sampler.decide('frontend', 'debug', 'api')).toBe('sampled');
+    expect(sampler.decide('frontend', 'info', 'api')).toBe('keep');
+  });
+
+  it('rate limits per package', () => {
+    const sampler = new Sampler({ packageRateLimits: { component: { ratePerSecond: 1 } } }, batch => summaries.push(batch));
+
+    expect(sampler.decide('frontend', 'info', 'component')).toBe('keep');
+    expect(sampler.decide('frontend', 'info', 'component')).toBe('rateLimited');
+    expect(sampler.decide('frontend', 'info', 'page')).toBe('keep');
+  });
+
+  it('keeps errors unless sampleErrors is set', () => {
+    expect(new Sampler({ sampleRate: 0 }, () => undefined).decide('frontend', 'error', 'api')).toBe('keep');
+    expect(new Sampler({ sampleRate: 0, sampleErrors: true }, () => undefined).decide('frontend', 'fatal', 'api'))
+      .toBe('sampled');
+  });
+
+  it('summarizes dropped entries per package and level', () => {
+    const sampler = new Sampler({ sampleRate: 0, rateLimit: { ratePerSecond: 1 } }, batch => summaries.push(batch));
+    sampler.decide('frontend', 'debug', 'utils');
+    sampler.decide('frontend', 'debug', 'utils');
+    sampler.decide('frontend', 'info', 'page');
+
+    sampler.close();
+
+    expect(summaries).toEqual([[
+      { stack: 'frontend', packageName: 'utils', level: 'debug', sampled: 2, rateLimited: 0 },
+      { stack: 'frontend', packageName: 'page', level: 'info', sampled: 1, rateLimited: 0 }
+    ]]);
+  });
+
+  it('emits the summary after the interval', () => {
+    jest.useFakeTimers();
+    try {
+      const sampler = new Sampler({ sampleRate: 0, summaryInterval: 1000 }, batch => summaries.push(batch));
+      sampler.decide('frontend', 'debug', 'utils');
+
+      jest.advanceTimersByTime(999);
+      expect(summaries).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(summaries).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('logger sampling', () => {
+  it('logs a summary entry for what was suppressed', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    try {
+      const logger = createTestLogger({ sampling: { packageSampleRates: { utils: 0 } } });
+      await logger.debug('utils', 'Cache hit');
+      await logger.debug('utils', 'Cache hit');
+      await logger.close();
+
+      logger.expectNotLogged({ message: 'Cache hit' });
+      logger.expectLogged({ package: 'utils', message: 'Suppressed 2 similar debug messages', data: { sampled: 2 } });
+    } finally {
+      random.mockRestore();
+    }
+  });
+});
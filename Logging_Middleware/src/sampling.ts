@@ -0,0 +1,191 @@
+import { LogLevel, LogPackage, LogStack } from './types';
+
+/**
+ * Token bucket settings: `ratePerSecond` entries on average, with bursts up to `burst`
+ */
+export interface RateLimitOptions {
+  ratePerSecond: number;
+  /** Bucket size; defaults to ratePerSecond */
+  burst?: number;
+}
+
+/**
+ * Options for sampling and rate limiting
+ */
+export interface SamplingOptions {
+  /** Fraction of entries kept (0-1) when no more specific rate applies (default 1) */
+  sampleRate?: number;
+  /** Per-level sample rates */
+  levelSampleRates?: Partial<Record<LogLevel, number>>;
+  /** Per-package sample rates, either one rate or one per level; these take precedence */
+  packageSampleRates?: Partial<Record<LogPackage, number | Partial<Record<LogLevel, number>>>>;
+  /** Rate limit applied to each package that has no entry in packageRateLimits */
+  rateLimit?: RateLimitOptions;
+  /** Per-package rate limits */
+  packageRateLimits?: Partial<Record<LogPackage, RateLimitOptions>>;
+  /** How often a "suppressed N similar messages" summary is emitted, in ms (default 60000) */
+  summaryInterval?: number;
+  /** Let sampling and rate limits drop error and fatal entries too (default false) */
+  sampleErrors?: boolean;
+}
+
+/**
+ * Whether an entry is kept, or why it was dropped
+ */
+export type SamplingDecision = 'keep' | 'sampled' | 'rateLimited';
+
+/**
+ * Count of entries dropped for one stack, package and level since the last summary
+ */
+export interface SuppressionSummary {
+  stack: LogStack;
+  packageName: LogPackage;
+  level: LogLevel;
+  sampled: number;
+  rateLimited: number;
+}
+
+/**
+ * Classic token bucket: each entry takes a token, tokens refill continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private capacity: number;
+  private ratePerMs: number;
+  private lastRefill: number;
+
+  constructor(options: RateLimitOptions) {
+    this.capacity = options.burst ?? options.ratePerSecond;
+    this.ratePerMs = options.ratePerSecond / 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  tryRemove(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Decides which entries are kept and collects counts of the ones that were dropped.
+ * Error and fatal entries are always kept unless `sampleErrors` is set.
+ */
+export class Sampler {
+  private options: SamplingOptions;
+  private buckets = new Map<LogPackage, TokenBucket>();
+  private suppressed = new Map<string, SuppressionSummary>();
+  private summaryTimer: ReturnType<typeof setTimeout> | null = null;
+  private onSummary: (summaries: SuppressionSummary[]) => void;
+
+  constructor(options: SamplingOptions, onSummary: (summaries: SuppressionSummary[]) => void) {
+    this.options = options;
+    this.onSummary = onSummary;
+  }
+
+  /**
+   * Decide whether to keep an entry, recording it for the next summary if not
+   */
+  decide(stack: LogStack, level: LogLevel, packageName: LogPackage): SamplingDecision {
+    if (!this.options.sampleErrors && (level === 'error' || level === 'fatal')) {
+      return 'keep';
+    }
+
+    if (Math.random() >= this.getSampleRate(level, packageName)) {
+      this.recordSuppressed(stack, level, packageName, 'sampled');
+      return 'sampled';
+    }
+
+    const bucket = this.getBucket(packageName);
+    if (bucket && !bucket.tryRemove()) {
+      this.recordSuppressed(stack, level, packageName, 'rateLimited');
+      return 'rateLimited';
+    }
+
+    return 'keep';
+  }
+
+  /**
+   * Check whether an entry is kept; see decide()
+   */
+  shouldKeep(stack: LogStack, level: LogLevel, packageName: LogPackage): boolean {
+    return this.decide(stack, level, packageName) === 'keep';
+  }
+
+  /**
+   * Emit the pending summary now instead of waiting for the interval
+   */
+  flushSummary(): void {
+    if (this.summaryTimer) {
+      clearTimeout(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+
+    if (this.suppressed.size > 0) {
+      const summaries = Array.from(this.suppressed.values());
+      this.suppressed.clear();
+      this.onSummary(summaries);
+    }
+  }
+
+  /**
+   * Stop the summary timer, emitting whatever is pending
+   */
+  close(): void {
+    this.flushSummary();
+  }
+
+  private getSampleRate(level: LogLevel, packageName: LogPackage): number {
+    const packageRate = this.options.packageSampleRates?.[packageName];
+    if (typeof packageRate === 'number') {
+      return packageRate;
+    }
+    return packageRate?.[level]
+      ?? this.options.levelSampleRates?.[level]
+      ?? this.options.sampleRate
+      ?? 1;
+  }
+
+  private getBucket(packageName: LogPackage): TokenBucket | undefined {
+    const limit = this.options.packageRateLimits?.[packageName] ?? this.options.rateLimit;
+    if (!limit) {
+      return undefined;
+    }
+
+    let bucket = this.buckets.get(packageName);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(packageName, bucket);
+    }
+    return bucket;
+  }
+
+  private recordSuppressed(
+    stack: LogStack,
+    level: LogLevel,
+    packageName: LogPackage,
+    reason: 'sampled' | 'rateLimited'
+  ): void {
+    const key = `${stack}|${packageName}|${level}`;
+    const summary = this.suppressed.get(key) ?? { stack, packageName, level, sampled: 0, rateLimited: 0 };
+    summary[reason]++;
+    this.suppressed.set(key, summary);
+
+    // The timer only runs while something is waiting to be summarized
+    if (!this.summaryTimer) {
+      this.summaryTimer = setTimeout(() => {
+        this.summaryTimer = null;
+        this.flushSummary();
+      }, this.options.summaryInterval ?? 60000);
+      // Let a Node process exit while a summary is pending; close() emits it
+      (this.summaryTimer as { unref?: () => void }).unref?.();
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { flattenEntry, formatContextPairs, serializeEntry, toJsonSafe } from './serialize';
+import { LogEntry } from './types';
+
+const entry: LogEntry = {
+  id: 'entry-1',
+  stack: 'frontend',
+  level: 'error',
+  package: 'api',
+  message: 'Request failed',
+  context: {
+    data: { status: 500, path: '/api/urls' },
+    error: new TypeError('Network down'),
+    timestamp: new Date('2024-01-01T00:00:00.000Z'),
+    correlationId: 'session-1'
+  }
+};
+
+describe('toJsonSafe', () => {
+  it('converts dates, errors and bigints, drops functions and breaks cycles', () => {
+    const cyclic: Record<string, unknown> = { name: 'root' };
+    cyclic.self = cyclic;
+
+    expect(toJsonSafe({
+      at: new Date('2024-01-01T00:00:00.000Z'),
+      size: BigInt(10),
+      callback: () => undefined,
+      cyclic,
+      list: [new Error('Inner')]
+    })).toEqual({
+      at: '2024-01-01T00:00:00.000Z',
+      size: '10',
+      cyclic: { name: 'root', self: '[Circular]' },
+      list: [expect.objectContaining({ name: 'Error', message: 'Inner' })]
+    });
+  });
+
+  it('keeps an object that is referenced more than once without a cycle', () => {
+    const shared = { id: 7 };
+
+    expect(toJsonSafe({ owner: shared, editor: shared, history: [shared, shared] })).toEqual({
+      owner: { id: 7 },
+      editor: { id: 7 },
+      history: [{ id: 7 }, { id: 7 }]
+    });
+  });
+});
+
+describe('serializeEntry', () => {
+  it('keeps context as separate structured fields', () => {
+    expect(serializeEntry(entry)).toEqual({
+      id: 'entry-1',
+      stack: 'frontend',
+      level: 'error',
+      package: 'api',
+      message: 'Request failed',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      correlationId: 'session-1',
+      data: { status: 500, path: '/api/urls' },
+      error: expect.objectContaining({ name: 'TypeError', message: 'Network down' })
+    });
+  });
+
+  it('leaves out empty data', () => {
+    expect(serializeEntry({ ...entry, context: { data: {} } })).not.toHaveProperty('data');
+  });
+});
+
+describe('flattenEntry', () => {
+  it('appends the context to the message as key=value pairs', () => {
+    expect(flattenEntry(entry)).toEqual({
+      id: 'entry-1',
+      stack: 'frontend',
+      level: 'error',
+      package: 'api',
+      message: 'Request failed | status=500 path=/api/urls correlationId=session-1 error="TypeError: Network down"'
+    });
+  });
+
+  it('quotes values with spaces, quotes or equals signs', () => {
+    expect(formatContextPairs({ data: { title: 'Two words', empty: '', expr: 'a=b' } }))
+      .toBe('title="Two words" empty="" expr="a=b"');
+  });
+});
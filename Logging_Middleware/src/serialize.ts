@@ -0,0 +1,128 @@
+import { LogContext, LogEntry, SerializedError, SerializedLogEntry } from './types';
+
+/**
+ * Convert an error into a plain object that survives JSON.stringify
+ */
+export function serializeError(error: Error): SerializedError {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack
+  };
+}
+
+/**
+ * Make a value JSON-safe: dates become ISO strings, errors become plain objects,
+ * bigints become strings, functions are dropped and circular references are replaced.
+ * `seen` holds the objects on the current path only, so a value shared by siblings is kept.
+ */
+export function toJsonSafe(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    const items = value.map(item => toJsonSafe(item, seen));
+    seen.delete(value);
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    const safe = toJsonSafe(item, seen);
+    if (safe !== undefined) {
+      result[key] = safe;
+    }
+  });
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Serialize an entry with its context as separate structured fields
+ */
+export function serializeEntry(entry: LogEntry): SerializedLogEntry {
+  const serialized: SerializedLogEntry = {
+    ...(entry.id ? { id: entry.id } : {}),
+    stack: entry.stack,
+    level: entry.level,
+    package: entry.package,
+    message: entry.message
+  };
+
+  const context = entry.context;
+  if (context?.timestamp) {
+    serialized.timestamp = context.timestamp.toISOString();
+  }
+  if (context?.correlationId) {
+    serialized.correlationId = context.correlationId;
+  }
+  if (context?.data && Object.keys(context.data).length > 0) {
+    serialized.data = toJsonSafe(context.data) as Record<string, unknown>;
+  }
+  if (context?.error) {
+    serialized.error = serializeError(context.error);
+  }
+
+  return serialized;
+}
+
+/**
+ * Render context data and error as `key=value` pairs, quoting values that contain spaces
+ */
+export function formatContextPairs(context?: LogContext): string {
+  const pairs: string[] = [];
+
+  Object.entries(context?.data ?? {}).forEach(([key, value]) => {
+    const safe = toJsonSafe(value);
+    if (safe === undefined) {
+      return;
+    }
+    const text = typeof safe === 'string' ? safe : JSON.stringify(safe);
+    pairs.push(`${key}=${/[\s"=]/.test(text) || text === '' ? JSON.stringify(text) : text}`);
+  });
+
+  if (context?.correlationId) {
+    pairs.push(`correlationId=${context.correlationId}`);
+  }
+
+  if (context?.error) {
+    pairs.push(`error=${JSON.stringify(`${context.error.name}: ${context.error.message}`)}`);
+  }
+
+  return pairs.join(' ');
+}
+
+/**
+ * Serialize an entry with its context flattened into the message, for APIs that only
+ * accept stack, level, package and message. The timestamp is left to the server; the
+ * client-generated `id` is kept so outbox replays can be deduplicated.
+ */
+export function flattenEntry(entry: LogEntry): SerializedLogEntry {
+  const pairs = formatContextPairs(entry.context);
+
+  return {
+    ...(entry.id ? { id: entry.id } : {}),
+    stack: entry.stack,
+    level: entry.level,
+    package: entry.package,
+    message: pairs ? `${entry.message} | ${pairs}` : entry.message
+  };
+}
@@ -0,0 +1,101 @@
+import { LogStatsCollector, formatPrometheusMetrics } from './stats';
+
+describe('LogStatsCollector', () => {
+  it('counts calls by level, package and outcome', () => {
+    const stats = new LogStatsCollector();
+    stats.recordCall('info', 'api', 'logged');
+    stats.recordCall('debug', 'api', 'sampled');
+    stats.recordRejected();
+
+    const snapshot = stats.snapshot(3);
+
+    expect(snapshot.byLevel).toMatchObject({ info: 1, debug: 1, error: 0 });
+    expect(snapshot.byPackage).toEqual({ api: 2 });
+    expect(snapshot.byOutcome).toMatchObject({ logged: 1, sampled: 1, rejected: 1 });
+    expect(snapshot.queueDepth).toBe(3);
+  });
+
+  it('counts requests, retries and deliveries', () => {
+    const stats = new LogStatsCollector();
+    stats.recordRequest(10, false, 1);
+    stats.recordRequest(20, true, 2);
+    stats.recordDelivery(5, true);
+    stats.recordDelivery(2, false);
+    stats.recordQueuedForRedelivery(2);
+    stats.recordReplayed(1);
+
+    expect(stats.snapshot().api).toMatchObject({
+      requests: 2,
+      failures: 1,
+      retries: 1,
+      entriesSent: 5,
+      entriesFailed: 2,
+      entriesQueuedForRedelivery: 2,
+      entriesReplayed: 1
+    });
+  });
+
+  it('keeps percentiles over recent requests and totals over all of them', () => {
+    const stats = new LogStatsCollector({ latencySamples: 4 });
+    [1000, 10, 20, 30, 40].forEach(latency => stats.recordRequest(latency, true, 1));
+
+    expect(stats.snapshot().api.latency).toEqual({ count: 5, sum: 1100, p50: 20, p90: 40, p99: 40, max: 40 });
+  });
+
+  it('starts over on reset', () => {
+    const stats = new LogStatsCollector();
+    stats.recordCall('info', 'api', 'logged');
+    stats.recordRequest(10, true, 1);
+    stats.reset();
+
+    const snapshot = stats.snapshot();
+    expect(snapshot.byOutcome.logged).toBe(0);
+    expect(snapshot.api.latency).toEqual({ count: 0, sum: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+  });
+});
+
+describe('formatPrometheusMetrics', () => {
+  it('renders counters and the latency summary with its sum and count', () => {
+    const stats = new LogStatsCollector();
+    stats.recordCall('warn', 'page', 'logged');
+    stats.recordRequest(10, true, 1);
+    stats.recordRequest(30, false, 1);
+
+    const lines = formatPrometheusMetrics(stats.snapshot(), 'app').split('\n');
+
+    expect(lines).toEqual(expect.arrayContaining([
+      '# TYPE app_entries_total counter',
+      'app_entries_total{level="warn"} 1',
+      'app_package_entries_total{package="page"} 1',
+      'app_api_requests_total{result="success"} 1',
+      'app_api_requests_total{result="failure"} 1',
+      '# TYPE app_api_latency_milliseconds summary',
+      'app_api_latency_milliseconds{quantile="0.5"} 10',
+      'app_api_latency_milliseconds_sum 40',
+      'app_api_latency_milliseconds_count 2',
+      'app_api_entries_total{result="sent"} 0',
+      'app_queue_depth 0'
+    ]));
+  });
+
+  it('counts outbox activity apart from delivery results', () => {
+    const stats = new LogStatsCollector();
+    stats.recordDelivery(2, false);
+    stats.recordQueuedForRedelivery(2);
+    stats.recordReplayed(2);
+
+    const text = formatPrometheusMetrics(stats.snapshot(), 'app');
+
+    expect(text).toContain('app_api_entries_total{result="failed"} 2');
+    expect(text).not.toContain('result="replayed"');
+    expect(text).toContain('app_outbox_entries_total{event="queued"} 2');
+    expect(text).toContain('app_outbox_entries_total{event="replayed"} 2');
+  });
+
+  it('escapes label values', () => {
+    const stats = new LogStatsCollector();
+    const snapshot = { ...stats.snapshot(), byPackage: { 'say "hi"\\n': 1 } } as never;
+
+    expect(formatPrometheusMetrics(snapshot)).toContain('package="say \\"hi\\"\\\\n"');
+  });
+});
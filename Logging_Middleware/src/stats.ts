@@ -0,0 +1,248 @@
+import { LogLevel, LogPackage } from './types';
+
+/**
+ * What happened to a log call: handed to the transports, or why it was not
+ */
+export type LogOutcome = 'logged' | 'filtered' | 'sampled' | 'rateLimited' | 'rejected' | 'dropped';
+
+/**
+ * Latency of log API requests in milliseconds. `count` and `sum` cover every request since
+ * counting started; the percentiles and `max` describe the most recent requests only.
+ */
+export interface LatencySummary {
+  count: number;
+  /** Total latency of every request counted */
+  sum: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Snapshot of a logger's counters
+ */
+export interface LoggerStats {
+  /** When counting started, as an ISO timestamp */
+  since: string;
+  /** Log calls per level, whatever their outcome */
+  byLevel: Record<LogLevel, number>;
+  /** Log calls per package, whatever their outcome */
+  byPackage: Partial<Record<LogPackage, number>>;
+  byOutcome: Record<LogOutcome, number>;
+  api: {
+    /** Requests that succeeded or failed, including retries and replays */
+    requests: number;
+    failures: number;
+    /** Attempts after the first for the same payload */
+    retries: number;
+    /** Entries accepted by the API */
+    entriesSent: number;
+    /** Entries given up on after all retries */
+    entriesFailed: number;
+    /** Entries parked in the outbox, and entries later delivered from it */
+    entriesQueuedForRedelivery: number;
+    entriesReplayed: number;
+    latency: LatencySummary;
+  };
+  /** Entries waiting in batch queues right now */
+  queueDepth: number;
+}
+
+/**
+ * Options for the stats collector
+ */
+export interface LogStatsCollectorOptions {
+  /** Number of recent request latencies kept for percentiles (default 1000) */
+  latencySamples?: number;
+}
+
+/**
+ * Counts what a logger and its HTTP transports do. Shared between them like the circuit breaker.
+ */
+export class LogStatsCollector {
+  private since!: Date;
+  private byLevel!: Record<LogLevel, number>;
+  private byPackage!: Partial<Record<LogPackage, number>>;
+  private byOutcome!: Record<LogOutcome, number>;
+  private api!: Omit<LoggerStats['api'], 'latency'>;
+  private latencies!: number[];
+  private latencyIndex!: number;
+  private latencyCount!: number;
+  private latencySum!: number;
+  private maxSamples: number;
+
+  constructor(options: LogStatsCollectorOptions = {}) {
+    this.maxSamples = options.latencySamples ?? 1000;
+    this.reset();
+  }
+
+  /**
+   * Start counting from zero
+   */
+  reset(): void {
+    this.since = new Date();
+    this.byLevel = { debug: 0, info: 0, warn: 0, error: 0, fatal: 0 };
+    this.byPackage = {};
+    this.byOutcome = { logged: 0, filtered: 0, sampled: 0, rateLimited: 0, rejected: 0, dropped: 0 };
+    this.api = {
+      requests: 0,
+      failures: 0,
+      retries: 0,
+      entriesSent: 0,
+      entriesFailed: 0,
+      entriesQueuedForRedelivery: 0,
+      entriesReplayed: 0
+    };
+    this.latencies = [];
+    this.latencyIndex = 0;
+    this.latencyCount = 0;
+    this.latencySum = 0;
+  }
+
+  /**
+   * Count a log call and its outcome
+   */
+  recordCall(level: LogLevel, packageName: LogPackage, outcome: LogOutcome): void {
+    this.byLevel[level]++;
+    this.byPackage[packageName] = (this.byPackage[packageName] ?? 0) + 1;
+    this.byOutcome[outcome]++;
+  }
+
+  /**
+   * Count a call refused by validation, whose level and package are not trustworthy
+   */
+  recordRejected(): void {
+    this.byOutcome.rejected++;
+  }
+
+  /**
+   * Count one request to the log API and its latency
+   */
+  recordRequest(latencyMs: number, success: boolean, attempt: number): void {
+    this.api.requests++;
+    if (!success) {
+      this.api.failures++;
+    }
+    if (attempt > 1) {
+      this.api.retries++;
+    }
+    this.latencyCount++;
+    this.latencySum += latencyMs;
+
+    // Ring buffer: percentiles describe recent behaviour without unbounded memory
+    if (this.latencies.length < this.maxSamples) {
+      this.latencies.push(latencyMs);
+    } else {
+      this.latencies[this.latencyIndex] = latencyMs;
+      this.latencyIndex = (this.latencyIndex + 1) % this.maxSamples;
+    }
+  }
+
+  /**
+   * Count entries by delivery result
+   */
+  recordDelivery(entries: number, delivered: boolean): void {
+    if (delivered) {
+      this.api.entriesSent += entries;
+    } else {
+      this.api.entriesFailed += entries;
+    }
+  }
+
+  /**
+   * Count entries parked in the outbox
+   */
+  recordQueuedForRedelivery(entries: number): void {
+    this.api.entriesQueuedForRedelivery += entries;
+  }
+
+  /**
+   * Count entries delivered from the outbox
+   */
+  recordReplayed(entries: number): void {
+    this.api.entriesReplayed += entries;
+  }
+
+  /**
+   * Copy the counters, adding the current queue depth
+   */
+  snapshot(queueDepth = 0): LoggerStats {
+    return {
+      since: this.since.toISOString(),
+      byLevel: { ...this.byLevel },
+      byPackage: { ...this.byPackage },
+      byOutcome: { ...this.byOutcome },
+      api: { ...this.api, latency: this.summarizeLatency() },
+      queueDepth
+    };
+  }
+
+  private summarizeLatency(): LatencySummary {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const percentile = (p: number) => (sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]);
+
+    return {
+      count: this.latencyCount,
+      sum: this.latencySum,
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+      p99: percentile(0.99),
+      max: sorted.length === 0 ? 0 : sorted[sorted.length - 1]
+    };
+  }
+}
+
+/**
+ * Escape a Prometheus label value
+ */
+function labelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Render stats in the Prometheus text exposition format, e.g. for a `/metrics` endpoint
+ */
+export function formatPrometheusMetrics(stats: LoggerStats, prefix = 'logging_middleware'): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: Array<[Record<string, string>, number]>) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    samples.forEach(([labels, value]) => {
+      const pairs = Object.entries(labels).map(([key, label]) => `${key}="${labelValue(label)}"`);
+      lines.push(`${prefix}_${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`);
+    });
+  };
+
+  metric('entries_total', 'counter', 'Log calls by level.',
+    Object.entries(stats.byLevel).map(([level, count]) => [{ level }, count]));
+  metric('package_entries_total', 'counter', 'Log calls by package.',
+    Object.entries(stats.byPackage).map(([packageName, count]) => [{ package: packageName }, count ?? 0]));
+  metric('outcomes_total', 'counter', 'Log calls by outcome.',
+    Object.entries(stats.byOutcome).map(([outcome, count]) => [{ outcome }, count]));
+  metric('api_requests_total', 'counter', 'Requests to the log API by result.', [
+    [{ result: 'success' }, stats.api.requests - stats.api.failures],
+    [{ result: 'failure' }, stats.api.failures]
+  ]);
+  metric('api_retries_total', 'counter', 'Log API requests that were retries.', [[{}, stats.api.retries]]);
+  metric('api_entries_total', 'counter', 'Entries by delivery result.', [
+    [{ result: 'sent' }, stats.api.entriesSent],
+    [{ result: 'failed' }, stats.api.entriesFailed]
+  ]);
+  // Kept apart from api_entries_total, where a parked entry has already been counted as failed
+  metric('outbox_entries_total', 'counter', 'Entries parked in the outbox and entries later delivered from it.', [
+    [{ event: 'queued' }, stats.api.entriesQueuedForRedelivery],
+    [{ event: 'replayed' }, stats.api.entriesReplayed]
+  ]);
+  metric('api_latency_milliseconds', 'summary', 'Log API request latency; quantiles over recent requests, sum and count over all.', [
+    [{ quantile: '0.5' }, stats.api.latency.p50],
+    [{ quantile: '0.9' }, stats.api.latency.p90],
+    [{ quantile: '0.99' }, stats.api.latency.p99]
+  ]);
+  lines.push(
+    `${prefix}_api_latency_milliseconds_sum ${stats.api.latency.sum}`,
+    `${prefix}_api_latency_milliseconds_count ${stats.api.latency.count}`
+  );
+  metric('queue_depth', 'gauge', 'Entries waiting in batch queues.', [[{}, stats.queueDepth]]);
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,3 @@
+// Browser-safe test helpers. The mock log server is exported from '../node'.
+export { TestLogger, createTestLogger } from './testLogger';
+export type { TestLoggerOptions } from './testLogger';
@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { MockLogServer } from './mockLogServer';
+
+const entry = { stack: 'backend', level: 'info', package: 'db', message: 'Connected' };
+
+describe('MockLogServer', () => {
+  let server: MockLogServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new MockLogServer({ accessToken: 'secret' });
+    url = await server.start();
+  });
+
+  afterEach(() => server.stop());
+
+  const post = (path: string, body: unknown, token = 'secret') =>
+    axios.post(`${url}${path}`, body, { headers: { Authorization: `Bearer ${token}` }, validateStatus: () => true });
+
+  it('accepts single and bulk entries with the evaluation API response shapes', async () => {
+    const single = await post('/logs', entry);
+    const bulk = await post('/logs/bulk', { logs: [entry, entry] });
+
+    expect(single.status).toBe(200);
+    expect(single.data).toEqual({ logID: 'mock-1', message: 'log created successfully' });
+    expect(bulk.data.logIDs).toEqual(['mock-2', 'mock-3']);
+    expect(server.received).toHaveLength(3);
+    expect(server.requests.map(request => request.path)).toEqual(['/logs', '/logs/bulk']);
+  });
+
+  it('answers queued scenarios in order, then the default response', async () => {
+    server.respondWith('error', 'rateLimited', { status: 204 });
+
+    expect((await post('/logs', entry)).status).toBe(500);
+    expect((await post('/logs', entry)).status).toBe(429);
+    expect((await post('/logs', entry)).status).toBe(204);
+    expect((await post('/logs', entry)).status).toBe(200);
+    expect(server.received).toHaveLength(1);
+  });
+
+  it('rejects the wrong token and unknown paths', async () => {
+    expect((await post('/logs', entry, 'wrong')).status).toBe(401);
+    expect((await post('/other', entry)).status).toBe(404);
+  });
+
+  it('forgets requests and queued responses on reset', async () => {
+    server.respondWith('error');
+    await post('/logs', entry);
+    server.reset();
+
+    expect(server.requests).toEqual([]);
+    expect((await post('/logs', entry)).status).toBe(200);
+  });
+});
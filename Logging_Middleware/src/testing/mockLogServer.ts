@@ -0,0 +1,180 @@
+import * as http from 'http';
+import type { AddressInfo, Socket } from 'net';
+import { BulkLogRequest, SerializedLogEntry } from '../types';
+
+/**
+ * How the mock server answers a request: a named scenario or an explicit response.
+ * 'timeout' never answers, so the client's own timeout fires.
+ */
+export type MockLogResponse =
+  | 'ok'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'error'
+  | 'unavailable'
+  | 'rateLimited'
+  | 'timeout'
+  | { status: number; body?: unknown; headers?: Record<string, string>; delay?: number };
+
+/**
+ * Request received by the mock server
+ */
+export interface MockLogRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+/**
+ * Options for the mock log server
+ */
+export interface MockLogServerOptions {
+  /** Port to listen on; 0 picks a free one (default 0) */
+  port?: number;
+  /** Bearer token to require; requests with any other token get 401 */
+  accessToken?: string;
+  /** Response used once the queued responses run out (default 'ok') */
+  defaultResponse?: MockLogResponse;
+}
+
+const SCENARIO_STATUS: Record<Exclude<MockLogResponse, 'ok' | 'timeout' | object>, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  error: 500,
+  unavailable: 503,
+  rateLimited: 429
+};
+
+/**
+ * Local stand-in for the evaluation log API (Node only). Implements `POST /logs` and
+ * `POST /logs/bulk`, records every request, and answers with queued scenarios so
+ * retries, authentication failures and timeouts can be exercised offline.
+ */
+export class MockLogServer {
+  /** Every request received, oldest first */
+  readonly requests: MockLogRequest[] = [];
+  /** Entries accepted with a 200, in the order they arrived */
+  readonly received: SerializedLogEntry[] = [];
+  private server: http.Server;
+  private options: MockLogServerOptions;
+  private queue: MockLogResponse[] = [];
+  private sockets = new Set<Socket>();
+  private nextId = 1;
+
+  constructor(options: MockLogServerOptions = {}) {
+    this.options = options;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  /**
+   * Start listening and resolve with the base URL to pass as `apiUrl`
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('MockLogServer is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Queue responses for the next requests, e.g. `respondWith('error', 'error', 'ok')`
+   */
+  respondWith(...responses: MockLogResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Forget recorded requests and queued responses
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.received.length = 0;
+    this.queue = [];
+  }
+
+  /**
+   * Stop listening, dropping connections held open by 'timeout' responses
+   */
+  stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Keep the raw text so malformed requests can be inspected
+      }
+
+      const path = (req.url ?? '/').split('?')[0];
+      this.requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+      this.respond(req, res, path, body);
+    });
+  }
+
+  private respond(req: http.IncomingMessage, res: http.ServerResponse, path: string, body: unknown): void {
+    const isBulk = path.endsWith('/logs/bulk');
+    if (req.method !== 'POST' || (!isBulk && !path.endsWith('/logs'))) {
+      this.send(res, 404, { message: 'Not found' });
+      return;
+    }
+
+    if (this.options.accessToken && req.headers.authorization !== `Bearer ${this.options.accessToken}`) {
+      this.send(res, 401, { message: 'Invalid token' });
+      return;
+    }
+
+    const response = this.queue.shift() ?? this.options.defaultResponse ?? 'ok';
+    if (response === 'timeout') {
+      return;
+    }
+    if (typeof response === 'object') {
+      setTimeout(() => this.send(res, response.status, response.body ?? {}, response.headers), response.delay ?? 0);
+      return;
+    }
+    if (response !== 'ok') {
+      this.send(res, SCENARIO_STATUS[response], { message: `Simulated ${response} response` });
+      return;
+    }
+
+    const entries = isBulk ? (body as BulkLogRequest)?.logs ?? [] : [body as SerializedLogEntry];
+    this.received.push(...entries);
+    const logIDs = entries.map(() => `mock-${this.nextId++}`);
+    this.send(res, 200, isBulk
+      ? { logIDs, message: 'logs created successfully' }
+      : { logID: logIDs[0], message: 'log created successfully' });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,40 @@
+import { createTestLogger } from './testLogger';
+
+describe('TestLogger', () => {
+  it('records entries and finds them by level, package, message and data', async () => {
+    const logger = createTestLogger();
+    await logger.info('api', 'Short URL created', { data: { shortCode: 'abc123' } });
+    await logger.error('component', 'Render failed');
+
+    expect(logger.entries).toHaveLength(2);
+    expect(logger.expectLogged({ level: 'info', package: 'api', data: { shortCode: 'abc123' } }).message)
+      .toBe('Short URL created');
+    expect(logger.find({ message: /render/i })?.level).toBe('error');
+    expect(logger.filter({ stack: 'frontend' })).toHaveLength(2);
+  });
+
+  it('records debug entries by default', async () => {
+    const logger = createTestLogger();
+    await logger.debug('state', 'Form changed');
+
+    logger.expectLogged({ level: 'debug', package: 'state' }, 1);
+  });
+
+  it('lists what was logged when an expectation fails', async () => {
+    const logger = createTestLogger();
+    await logger.warn('api', 'Slow response');
+
+    expect(() => logger.expectLogged({ level: 'error' })).toThrow(/found 0[\s\S]*Slow response/);
+    expect(() => logger.expectLogged({ level: 'warn' }, 2)).toThrow('Expected 2 entries');
+    expect(() => logger.expectNotLogged({ message: 'Slow' })).toThrow('Expected no entries');
+  });
+
+  it('forgets entries on clear', async () => {
+    const logger = createTestLogger();
+    await logger.info('page', 'Loaded');
+    logger.clear();
+
+    logger.expectNotLogged({ package: 'page' });
+    expect(logger.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import { LoggingMiddleware } from '../logger';
+import { LoggerConfig, LogEntry, LogStack } from '../types';
+import { LogQuery, MemoryTransport } from '../transports/memory';
+
+/**
+ * Options for a test logger. Entries go only to an in-memory transport.
+ */
+export interface TestLoggerOptions extends Omit<LoggerConfig, 'defaultStack' | 'transports' | 'apiUrl' | 'accessToken'> {
+  /** Default 'frontend' */
+  defaultStack?: LogStack;
+}
+
+/**
+ * Describe a query for assertion messages, e.g. `{ level: 'warn', message: /timeout/ }`
+ */
+function describeQuery(query: LogQuery): string {
+  return Object.entries(query)
+    .map(([key, value]) => `${key}: ${value instanceof RegExp ? value.toString() : JSON.stringify(value)}`)
+    .join(', ');
+}
+
+/**
+ * Logger that records every entry in memory and offers assertions over them.
+ * Works with any test runner: failed expectations throw an Error listing what was logged.
+ */
+export class TestLogger extends LoggingMiddleware {
+  readonly transport: MemoryTransport;
+
+  constructor(options: TestLoggerOptions = {}) {
+    const transport = new MemoryTransport();
+    super({
+      minLevel: 'debug',
+      ...options,
+      defaultStack: options.defaultStack ?? 'frontend',
+      enableConsoleLog: false,
+      transports: [transport]
+    });
+    this.transport = transport;
+  }
+
+  /**
+   * Every entry recorded so far, oldest first
+   */
+  get entries(): LogEntry[] {
+    return [...this.transport.entries];
+  }
+
+  /**
+   * Get every recorded entry matching the query
+   */
+  filter(query: LogQuery): LogEntry[] {
+    return this.transport.filter(query);
+  }
+
+  /**
+   * Get the first recorded entry matching the query
+   */
+  find(query: LogQuery): LogEntry | undefined {
+    return this.transport.find(query);
+  }
+
+  /**
+   * Assert that an entry matching the query was logged, optionally exactly `times` times.
+   * Returns the first matching entry.
+   */
+  expectLogged(query: LogQuery, times?: number): LogEntry {
+    const matches = this.filter(query);
+    if (matches.length === 0 || (times !== undefined && matches.length !== times)) {
+      const expected = times === undefined ? 'at least one entry' : `${times} entries`;
+      throw new Error(
+        `Expected ${expected} matching { ${describeQuery(query)} }, found ${matches.length}.\n` +
+        `Logged entries:\n${this.describeEntries()}`
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Assert that no entry matching the query was logged
+   */
+  expectNotLogged(query: LogQuery): void {
+    const matches = this.filter(query);
+    if (matches.length > 0) {
+      throw new Error(
+        `Expected no entries matching { ${describeQuery(query)} }, found ${matches.length}.\n` +
+        `Logged entries:\n${this.describeEntries()}`
+      );
+    }
+  }
+
+  /**
+   * Discard everything recorded so far
+   */
+  clear(): void {
+    this.transport.clear();
+  }
+
+  private describeEntries(): string {
+    return this.transport.lines.length > 0
+      ? this.transport.lines.map(line => `  ${line}`).join('\n')
+      : '  (none)';
+  }
+}
+
+/**
+ * Create a logger for unit tests, e.g.
+ * `const logger = createTestLogger(); ...; logger.expectLogged({ level: 'error', package: 'api' })`
+ */
+export function createTestLogger(options: TestLoggerOptions = {}): TestLogger {
+  return new TestLogger(options);
+}
@@ -0,0 +1,61 @@
+import { createTestLogger } from './testing';
+
+describe('spans', () => {
+  it('log the duration and outcome once when ended', async () => {
+    const logger = createTestLogger();
+    const span = logger.startTimer('Load URLs', { package: 'api', data: { source: 'remote' } });
+
+    const duration = span.end({ count: 3 });
+    expect(span.end()).toBe(duration);
+    await logger.flush();
+
+    const entry = logger.expectLogged({ level: 'info', package: 'api' });
+    expect(entry.message).toBe(`Load URLs completed in ${duration}ms`);
+    expect(entry.context?.data).toEqual({
+      source: 'remote',
+      count: 3,
+      span: 'Load URLs',
+      spanId: span.id,
+      durationMs: duration,
+      outcome: 'success'
+    });
+  });
+
+  it('nest with the parent span ID and inherited options', async () => {
+    const logger = createTestLogger();
+    const parent = logger.startTimer('Submit', { package: 'component', level: 'debug' });
+    const child = parent.startTimer('Validate');
+
+    child.end();
+    parent.end();
+    await logger.flush();
+
+    expect(child.parentId).toBe(parent.id);
+    logger.expectLogged({ level: 'debug', package: 'component', data: { span: 'Validate', parentSpanId: parent.id } });
+  });
+});
+
+describe('time', () => {
+  it('resolves with the operation result and logs success', async () => {
+    const logger = createTestLogger();
+
+    expect(await logger.time('Compute', () => 42)).toBe(42);
+
+    logger.expectLogged({ level: 'info', data: { span: 'Compute', outcome: 'success' } });
+  });
+
+  it('logs failures at error level and rethrows', async () => {
+    const logger = createTestLogger();
+
+    await expect(logger.time('Fetch', async span => {
+      await span.time('Parse', () => { throw new Error('Bad JSON'); });
+    })).rejects.toThrow('Bad JSON');
+    await logger.flush();
+
+    expect(logger.filter({ level: 'error' }).map(entry => entry.message)).toEqual([
+      expect.stringMatching(/^Parse failed after [\d.]+ms: Bad JSON$/),
+      expect.stringMatching(/^Fetch failed after [\d.]+ms: Bad JSON$/)
+    ]);
+    expect(logger.find({ message: 'Parse' })?.context?.error?.message).toBe('Bad JSON');
+  });
+});
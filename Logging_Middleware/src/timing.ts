@@ -0,0 +1,153 @@
+import { Logger, LogLevel, LogPackage } from './types';
+import { generateId } from './ids';
+
+/**
+ * Options for a timer started with `logger.startTimer()` or `logger.time()`
+ */
+export interface TimerOptions {
+  /** Package the completion entry is logged under (default 'utils') */
+  package?: LogPackage;
+  /** Level of the completion entry on success; failures are logged at 'error' (default 'info') */
+  level?: LogLevel;
+  /** Extra fields added to the completion entry */
+  data?: Record<string, unknown>;
+  /** Span this one is nested in, or its ID */
+  parent?: Span | string;
+}
+
+/**
+ * A running timer. Ending it logs one entry with the duration, outcome and span IDs;
+ * spans started from it carry its ID as `parentSpanId`.
+ */
+export interface Span {
+  readonly id: string;
+  readonly name: string;
+  readonly parentId?: string;
+  /** Log success and return the duration in milliseconds; later calls only return the duration */
+  end(data?: Record<string, unknown>): number;
+  /** Log failure with the error and return the duration in milliseconds */
+  fail(error: unknown, data?: Record<string, unknown>): number;
+  /** Start a nested span, inheriting this span's package and level unless overridden */
+  startTimer(name: string, options?: TimerOptions): Span;
+  /** Time a nested operation; see `timeOperation` */
+  time<T>(name: string, operation: (span: Span) => T | Promise<T>, options?: TimerOptions): Promise<T>;
+}
+
+/**
+ * High-resolution clock where available
+ */
+function now(): number {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+/**
+ * Timer that reports through a logger when it ends
+ */
+class LoggerSpan implements Span {
+  readonly id = generateId().replace(/-/g, '').slice(0, 16);
+  readonly name: string;
+  readonly parentId?: string;
+  private logger: Logger;
+  private options: TimerOptions;
+  private startedAt = now();
+  private duration: number | null = null;
+
+  constructor(logger: Logger, name: string, options: TimerOptions) {
+    this.logger = logger;
+    this.name = name;
+    this.options = options;
+    this.parentId = typeof options.parent === 'string' ? options.parent : options.parent?.id;
+  }
+
+  end(data?: Record<string, unknown>): number {
+    if (this.duration !== null) {
+      return this.duration;
+    }
+    this.duration = this.elapsed();
+
+    void this.logger[this.options.level ?? 'info'](
+      this.options.package ?? 'utils',
+      `${this.name} completed in ${this.duration}ms`,
+      { data: this.fields('success', data) }
+    );
+    return this.duration;
+  }
+
+  fail(error: unknown, data?: Record<string, unknown>): number {
+    if (this.duration !== null) {
+      return this.duration;
+    }
+    this.duration = this.elapsed();
+
+    const cause = error instanceof Error ? error : new Error(String(error));
+    void this.logger.error(
+      this.options.package ?? 'utils',
+      `${this.name} failed after ${this.duration}ms: ${cause.message}`,
+      { error: cause, data: this.fields('failure', data) }
+    );
+    return this.duration;
+  }
+
+  startTimer(name: string, options: TimerOptions = {}): Span {
+    return startSpan(this.logger, name, {
+      package: this.options.package,
+      level: this.options.level,
+      ...options,
+      parent: this
+    });
+  }
+
+  time<T>(name: string, operation: (span: Span) => T | Promise<T>, options: TimerOptions = {}): Promise<T> {
+    return runSpan(this.startTimer(name, options), operation);
+  }
+
+  private elapsed(): number {
+    return Math.round((now() - this.startedAt) * 10) / 10;
+  }
+
+  private fields(outcome: 'success' | 'failure', data?: Record<string, unknown>): Record<string, unknown> {
+    return {
+      ...this.options.data,
+      ...data,
+      span: this.name,
+      spanId: this.id,
+      ...(this.parentId ? { parentSpanId: this.parentId } : {}),
+      durationMs: this.duration,
+      outcome
+    };
+  }
+}
+
+/**
+ * Start a span that logs through `logger` when it ends
+ */
+export function startSpan(logger: Logger, name: string, options: TimerOptions = {}): Span {
+  return new LoggerSpan(logger, name, options);
+}
+
+/**
+ * End a span with the operation's outcome: success when it resolves, failure with the
+ * error (rethrown) when it throws or rejects
+ */
+async function runSpan<T>(span: Span, operation: (span: Span) => T | Promise<T>): Promise<T> {
+  try {
+    const result = await operation(span);
+    span.end();
+    return result;
+  } catch (error) {
+    span.fail(error);
+    throw error;
+  }
+}
+
+/**
+ * Time an operation through `logger`; the operation receives the span to nest further spans
+ */
+export function timeOperation<T>(
+  logger: Logger,
+  name: string,
+  operation: (span: Span) => T | Promise<T>,
+  options: TimerOptions = {}
+): Promise<T> {
+  return runSpan(startSpan(logger, name, options), operation);
+}
@@ -0,0 +1,56 @@
+import { FormatterOption, LogEntry, LogFormatter, LogLevel, Transport } from '../types';
+import { resolveFormatter } from '../formatters';
+
+/**
+ * Options for the console transport
+ */
+export interface ConsoleTransportOptions {
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+  /** Use the console method matching the level (default true); when false everything goes to console.log, i.e. stdout on Node */
+  levelMethods?: boolean;
+}
+
+/**
+ * Writes entries to the console, by default using the console method that matches the level
+ */
+export class ConsoleTransport implements Transport {
+  readonly name = 'console';
+  level?: LogLevel;
+  formatter: LogFormatter;
+  private levelMethods: boolean;
+
+  constructor(options: ConsoleTransportOptions = {}) {
+    this.level = options.level;
+    this.formatter = resolveFormatter(options.formatter);
+    this.levelMethods = options.levelMethods ?? true;
+  }
+
+  async log(entry: LogEntry): Promise<void> {
+    const logMessage = this.formatter(entry);
+
+    if (!this.levelMethods) {
+      console.log(logMessage);
+      return;
+    }
+
+    switch (entry.level) {
+      case 'debug':
+        console.debug(logMessage);
+        break;
+      case 'info':
+        console.info(logMessage);
+        break;
+      case 'warn':
+        console.warn(logMessage);
+        break;
+      case 'error':
+      case 'fatal':
+        console.error(logMessage);
+        break;
+      default:
+        console.log(logMessage);
+    }
+  }
+}
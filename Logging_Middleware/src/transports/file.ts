@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormatterOption, LogLevel } from '../types';
+import { StreamTransport } from './stream';
+
+/**
+ * Options for the file transport
+ */
+export interface FileTransportOptions {
+  /** File to append to; parent directories are created if missing */
+  filePath: string;
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+}
+
+/**
+ * Appends one formatted line per entry to a file (Node only)
+ */
+export class FileTransport extends StreamTransport {
+  readonly name = 'file';
+
+  constructor(options: FileTransportOptions) {
+    fs.mkdirSync(path.dirname(options.filePath), { recursive: true });
+
+    super({
+      stream: fs.createWriteStream(options.filePath, { flags: 'a' }),
+      level: options.level,
+      formatter: options.formatter,
+      endOnClose: true
+    });
+  }
+}
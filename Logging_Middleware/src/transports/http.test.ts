@@ -0,0 +1,288 @@
+import { CircuitBreaker } from '../circuitBreaker';
+import { LogOutbox } from '../outbox/outbox';
+import { MemoryOutboxStore } from '../outbox/memoryStore';
+import { MockLogServer } from '../testing/mockLogServer';
+import { LogEntry } from '../types';
+import { HttpTransport, HttpTransportOptions } from './http';
+
+const entry = (message: string, id?: string): LogEntry => ({
+  ...(id ? { id } : {}),
+  stack: 'backend',
+  level: 'info',
+  package: 'db',
+  message
+});
+
+describe('HttpTransport', () => {
+  let server: MockLogServer;
+  let apiUrl: string;
+  const transports: HttpTransport[] = [];
+
+  const createTransport = (options: Partial<HttpTransportOptions> = {}) => {
+    const transport = new HttpTransport({
+      apiUrl,
+      accessToken: 'token',
+      logFailures: false,
+      backoff: () => 0,
+      ...options
+    });
+    transports.push(transport);
+    return transport;
+  };
+
+  beforeEach(async () => {
+    server = new MockLogServer();
+    apiUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(transports.splice(0).map(transport => transport.close()));
+    await server.stop();
+  });
+
+  describe('batching', () => {
+    it('uploads a full batch to the bulk endpoint and resolves each entry with its logID', async () => {
+      const transport = createTransport({ enableBatching: true, batchSize: 2 });
+
+      const responses = await Promise.all([transport.log(entry('first')), transport.log(entry('second'))]);
+
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].path).toBe('/logs/bulk');
+      expect(server.received.map(received => received.message)).toEqual(['first', 'second']);
+      expect(responses.map(response => response?.logID)).toEqual(['mock-1', 'mock-2']);
+    });
+
+    it('holds entries until flush when the batch is not full', async () => {
+      const transport = createTransport({ enableBatching: true, batchSize: 10, batchInterval: 60000 });
+
+      const pending = transport.log(entry('queued'));
+      expect(transport.getQueueDepth()).toBe(1);
+      expect(server.requests).toHaveLength(0);
+
+      await transport.flush();
+      await expect(pending).resolves.toMatchObject({ logID: 'mock-1' });
+      expect(transport.getQueueDepth()).toBe(0);
+    });
+
+    it('treats a 2xx response without a body as delivered', async () => {
+      const transport = createTransport({ enableBatching: true, batchSize: 1 });
+      server.respondWith({ status: 204 });
+
+      await expect(transport.log(entry('no content'))).resolves.toBeNull();
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe('outbox', () => {
+    const createOutbox = () => new LogOutbox({ store: new MemoryOutboxStore() });
+
+    it('parks an entry that failed every attempt and replays it once the API recovers', async () => {
+      const outbox = createOutbox();
+      const transport = createTransport({ outbox, retryAttempts: 2 });
+      server.respondWith('unavailable', 'unavailable');
+
+      await expect(transport.log(entry('parked', 'entry-1'))).resolves.toBeNull();
+      expect(await outbox.size()).toBe(1);
+
+      await expect(transport.replay()).resolves.toBe(1);
+      expect(await outbox.size()).toBe(0);
+      expect(server.received).toEqual([expect.objectContaining({ id: 'entry-1', message: 'parked' })]);
+    });
+
+    it('keeps the entry id in flattened payloads so replays can be deduplicated', async () => {
+      const outbox = createOutbox();
+      const transport = createTransport({ outbox, retryAttempts: 1, contextMode: 'flatten' });
+      server.respondWith('error');
+
+      await transport.log({ ...entry('flattened', 'entry-2'), context: { data: { shortCode: 'abc' } } });
+      const [queued] = await outbox.peek();
+
+      expect(queued.id).toBe('entry-2');
+      expect(queued.entry).toMatchObject({ id: 'entry-2', message: 'flattened | shortCode=abc' });
+    });
+
+    it('replays what is waiting after the next successful send', async () => {
+      const outbox = createOutbox();
+      const transport = createTransport({ outbox });
+      await transport.replay();
+      await outbox.add([{ id: 'old', entry: { ...entry('old'), id: 'old' }, queuedAt: 0 }]);
+
+      await transport.log(entry('new'));
+      // Joins the replay the successful send started
+      await transport.replay();
+
+      expect(server.received.map(received => received.message)).toEqual(['new', 'old']);
+      expect(await outbox.size()).toBe(0);
+    });
+  });
+
+  describe('retries and the circuit breaker', () => {
+    it('retries failed requests until one succeeds', async () => {
+      const transport = createTransport({ retryAttempts: 3 });
+      server.respondWith('error', 'unavailable');
+
+      await expect(transport.log(entry('eventually'))).resolves.toMatchObject({ logID: 'mock-1' });
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('gives up after the configured attempts', async () => {
+      const transport = createTransport({ retryAttempts: 2 });
+      server.respondWith('error', 'error', 'error');
+
+      await expect(transport.log(entry('lost'))).resolves.toBeNull();
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('does not retry a rejected token without a token provider', async () => {
+      const transport = createTransport({ retryAttempts: 3 });
+      server.respondWith('unauthorized');
+
+      await transport.log(entry('unauthorized'));
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('skips the network while the circuit is open and parks entries in the outbox', async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 60000 });
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ circuitBreaker, outbox, retryAttempts: 1 });
+      server.respondWith('unavailable');
+
+      await transport.log(entry('opens the circuit'));
+      await transport.log(entry('refused'));
+
+      expect(circuitBreaker.getState()).toBe('open');
+      expect(server.requests).toHaveLength(1);
+      expect(await outbox.size()).toBe(2);
+    });
+
+    it('reports entries refused by an open circuit when there is no outbox', async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 60000 });
+      circuitBreaker.recordFailure();
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      try {
+        const transport = createTransport({ circuitBreaker, logFailures: true });
+
+        await expect(transport.log(entry('refused'))).resolves.toBeNull();
+        expect(server.requests).toHaveLength(0);
+        expect(error).toHaveBeenCalledWith('Failed to send log to API after all retries:', 'Log API circuit is open');
+      } finally {
+        error.mockRestore();
+      }
+    });
+  });
+
+  describe('token refresh', () => {
+    it('refreshes the token after a 401 and retries without using up an attempt', async () => {
+      const tokenProvider = jest.fn().mockResolvedValue('fresh');
+      const transport = createTransport({ accessToken: 'stale', tokenProvider, retryAttempts: 1 });
+      server.respondWith('unauthorized');
+
+      await expect(transport.log(entry('authorized'))).resolves.toMatchObject({ logID: 'mock-1' });
+      expect(server.requests.map(request => request.headers.authorization)).toEqual(['Bearer stale', 'Bearer fresh']);
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up when the refreshed token is refused too', async () => {
+      const transport = createTransport({ accessToken: 'stale', tokenProvider: () => 'also-bad', retryAttempts: 3 });
+      server.respondWith('unauthorized', 'forbidden');
+
+      await expect(transport.log(entry('refused'))).resolves.toBeNull();
+      expect(server.requests).toHaveLength(2);
+    });
+  });
+
+  describe('unload delivery', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+    });
+
+    afterEach(() => fetchSpy.mockRestore());
+
+    // Let keepalive responses and the outbox writes they trigger finish
+    const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    it('sends queued entries with keepalive and drops them from the outbox once accepted', async () => {
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ outbox, enableBatching: true, batchSize: 10, batchInterval: 60000 });
+      const pending = [transport.log(entry('first', 'entry-1')), transport.log(entry('second', 'entry-2'))];
+
+      expect(transport.flushOnUnload()).toBe(2);
+
+      await expect(Promise.all(pending)).resolves.toEqual([null, null]);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe(`${apiUrl}/logs/bulk`);
+      expect(init).toMatchObject({ method: 'POST', keepalive: true, headers: { Authorization: 'Bearer token' } });
+      expect(JSON.parse(init.body).logs.map((log: LogEntry) => log.message)).toEqual(['first', 'second']);
+      expect(transport.getQueueDepth()).toBe(0);
+
+      await settle();
+      expect(await outbox.size()).toBe(0);
+    });
+
+    it('does not resend entries a hidden page already delivered', async () => {
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ outbox, enableBatching: true, batchSize: 10, batchInterval: 60000 });
+      const pending = transport.log(entry('before switching tabs', 'entry-1'));
+
+      transport.flushOnUnload(false);
+      await pending;
+      await settle();
+      const later = transport.log(entry('after coming back', 'entry-2'));
+      await transport.flush();
+      await later;
+      await transport.replay();
+
+      expect(server.received.map(received => received.message)).toEqual(['after coming back']);
+    });
+
+    it('keeps entries for replay when the keepalive request fails', async () => {
+      fetchSpy.mockResolvedValue(new Response(null, { status: 500 }));
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ outbox, enableBatching: true, batchSize: 10, batchInterval: 60000 });
+      const pending = transport.log(entry('lost on unload', 'entry-1'));
+
+      transport.flushOnUnload();
+      await pending;
+      await settle();
+
+      expect(await transport.replay()).toBe(1);
+      expect(server.received.map(received => received.message)).toEqual(['lost on unload']);
+      expect(await outbox.size()).toBe(0);
+    });
+
+    it('does not replay entries whose keepalive request is still pending', async () => {
+      fetchSpy.mockReturnValue(new Promise(() => undefined));
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ outbox, enableBatching: true, batchSize: 10, batchInterval: 60000 });
+      const pending = transport.log(entry('in the keepalive', 'entry-1'));
+
+      transport.flushOnUnload(false);
+      await pending;
+
+      expect(await transport.replay()).toBe(0);
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('drops parked in-flight entries from the outbox when their request succeeds', async () => {
+      fetchSpy.mockReturnValue(new Promise(() => undefined));
+      const outbox = new LogOutbox({ store: new MemoryOutboxStore() });
+      const transport = createTransport({ outbox });
+      const sent = transport.log(entry('in flight', 'entry-1'));
+
+      expect(transport.flushOnUnload()).toBe(1);
+      await expect(sent).resolves.toMatchObject({ logID: 'mock-1' });
+
+      expect(await outbox.size()).toBe(0);
+    });
+
+    it('sends nothing when nothing is waiting', () => {
+      const transport = createTransport({ enableBatching: true });
+
+      expect(transport.flushOnUnload()).toBe(0);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
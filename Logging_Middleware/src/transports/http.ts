@@ -0,0 +1,619 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import {
+  ContextMode,
+  LogEntry,
+  LogLevel,
+  LogResponse,
+  BulkLogRequest,
+  BulkLogResponse,
+  SerializedLogEntry,
+  Transport
+} from '../types';
+import { flattenEntry, serializeEntry } from '../serialize';
+import { generateId } from '../ids';
+import { LogOutbox, OutboxRecord } from '../outbox/outbox';
+import { BackoffStrategy, linearBackoff } from '../backoff';
+import { CircuitBreaker } from '../circuitBreaker';
+import { TokenManager, TokenProvider } from '../auth';
+import { LogStatsCollector } from '../stats';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  apiUrl: string;
+  /** Static bearer token, or the first token to use when a tokenProvider is given */
+  accessToken?: string;
+  /** Supplies fresh tokens: called before the JWT expires and once after a 401/403 */
+  tokenProvider?: TokenProvider;
+  /** Refresh this many milliseconds before the token expires (default 60s) */
+  refreshLeeway?: number;
+  level?: LogLevel;
+  /** Print delivery failures to the console */
+  logFailures?: boolean;
+  retryAttempts?: number;
+  retryDelay?: number;
+  /** Delay between attempts; defaults to linear backoff on retryDelay */
+  backoff?: BackoffStrategy;
+  /** Breaker shared by every sender to this API; while open, entries skip the network */
+  circuitBreaker?: CircuitBreaker;
+  /** Queue entries in memory and ship them to the bulk endpoint instead of one request per entry */
+  enableBatching?: boolean;
+  /** Flush the queue once it holds this many entries */
+  batchSize?: number;
+  /** Flush the queue this many milliseconds after the first entry was queued */
+  batchInterval?: number;
+  /** Path of the bulk upload endpoint, relative to apiUrl */
+  bulkEndpoint?: string;
+  timeout?: number;
+  /** Send context as structured fields, or flatten it into `message` for the evaluation API (default 'structured') */
+  contextMode?: ContextMode;
+  /** Durable queue for entries that could not be delivered; replayed on startup and reconnect */
+  outbox?: LogOutbox;
+  /** Collector counting requests, retries, latency and delivery results; usually shared with the logger */
+  stats?: LogStatsCollector;
+  /**
+   * In the browser, hand queued and in-flight entries to requests that outlive the page on
+   * `pagehide`, and send the queue early when the page is hidden (default false)
+   */
+  unloadDelivery?: boolean;
+}
+
+/**
+ * Queued entry waiting for the next batch flush
+ */
+interface PendingLogEntry {
+  entry: LogEntry;
+  resolve: (response: LogResponse | null) => void;
+}
+
+/**
+ * Outcome of posting to the API: whether it accepted the request, and the response body if it sent one
+ */
+interface DeliveryResult<T> {
+  delivered: boolean;
+  data: T | null;
+}
+
+/**
+ * Ships entries to the log API with `POST /logs`, or in batches to the bulk endpoint
+ */
+export class HttpTransport implements Transport {
+  readonly name = 'http';
+  level?: LogLevel;
+  private apiClient: AxiosInstance;
+  private options: HttpTransportOptions;
+  private queue: PendingLogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private activeFlush: Promise<void> = Promise.resolve();
+  private activeReplay: Promise<number> | null = null;
+  private backoff: BackoffStrategy;
+  private tokens: TokenManager | null;
+  private unsubscribeBreaker: (() => void) | null = null;
+  /** Entries whose request has not completed yet; a navigation would abort them */
+  private inFlight = new Set<SerializedLogEntry>();
+  /** IDs written to the outbox by flushOnUnload and not yet known to be delivered */
+  private parkedOnUnload = new Set<string>();
+  /** IDs whose keepalive send has not settled; replays skip them so they are not sent twice */
+  private keepaliveInFlight = new Set<string>();
+  private handleOnline = () => {
+    void this.replay();
+  };
+  private handlePageHide = () => {
+    this.flushOnUnload(true);
+  };
+  private handleVisibilityChange = () => {
+    // The page may still come back, so requests in flight are left to complete
+    if (document.visibilityState === 'hidden') {
+      this.flushOnUnload(false);
+    }
+  };
+
+  constructor(options: HttpTransportOptions) {
+    this.options = {
+      logFailures: true,
+      retryAttempts: 3,
+      retryDelay: 1000,
+      enableBatching: false,
+      batchSize: 20,
+      batchInterval: 5000,
+      bulkEndpoint: '/logs/bulk',
+      timeout: 10000,
+      contextMode: 'structured',
+      ...options
+    };
+    this.level = options.level;
+    this.backoff = this.options.backoff ?? linearBackoff(this.options.retryDelay!);
+
+    if (!this.options.accessToken && !this.options.tokenProvider) {
+      throw new Error('HttpTransport requires an accessToken or a tokenProvider');
+    }
+    this.tokens = this.options.tokenProvider
+      ? new TokenManager({
+          getToken: this.options.tokenProvider,
+          initialToken: this.options.accessToken,
+          refreshLeeway: this.options.refreshLeeway,
+          logFailures: this.options.logFailures
+        })
+      : null;
+
+    this.apiClient = axios.create({
+      baseURL: this.options.apiUrl,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: this.options.timeout
+    });
+
+    if (this.options.outbox) {
+      // Deliver whatever a previous session left behind, and retry whenever the browser reconnects
+      void this.replay();
+      if (typeof window !== 'undefined' && window.addEventListener) {
+        window.addEventListener('online', this.handleOnline);
+      }
+    }
+
+    if (this.options.unloadDelivery && typeof window !== 'undefined' && window.addEventListener) {
+      window.addEventListener('pagehide', this.handlePageHide);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    if (this.options.circuitBreaker) {
+      this.unsubscribeBreaker = this.options.circuitBreaker.onStateChange(change => {
+        if (this.options.logFailures && change.to !== 'half-open') {
+          console.warn(change.to === 'open'
+            ? `Log API circuit opened after ${change.consecutiveFailures} consecutive failures; pausing delivery`
+            : 'Log API circuit closed; resuming delivery');
+        }
+        if (change.to === 'closed') {
+          void this.replay();
+        }
+      });
+    }
+  }
+
+  /**
+   * Send an entry, or queue it in batching mode.
+   * In batching mode the returned promise resolves once the entry's batch has been flushed.
+   */
+  async log(entry: LogEntry): Promise<LogResponse | null> {
+    if (this.options.enableBatching) {
+      return this.enqueue(entry);
+    }
+
+    const payload = this.serialize(entry);
+    let result: DeliveryResult<LogResponse>;
+    this.inFlight.add(payload);
+    try {
+      result = await this.sendLogToAPI(payload);
+    } finally {
+      this.inFlight.delete(payload);
+    }
+    this.options.stats?.recordDelivery(1, result.delivered);
+    await this.afterSend([this.toOutboxRecord(payload)], result.delivered);
+    return result.data;
+  }
+
+  /**
+   * Send every queued entry to the bulk endpoint and wait for the upload to complete.
+   * Also waits for flushes that are already in flight.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const pending = this.queue.splice(0);
+    if (pending.length > 0) {
+      // Chain flushes so batches reach the server in the order they were logged
+      this.activeFlush = this.activeFlush.then(() => this.sendBatch(pending));
+    }
+
+    return this.activeFlush;
+  }
+
+  async close(): Promise<void> {
+    if (typeof window !== 'undefined' && window.removeEventListener) {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('pagehide', this.handlePageHide);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.unsubscribeBreaker?.();
+    this.tokens?.close();
+    await this.flush();
+    await this.activeReplay;
+  }
+
+  /**
+   * Send queued entries, and optionally those whose request is still in flight, with
+   * `fetch(..., { keepalive: true })` so delivery survives the page being unloaded.
+   * Falls back to `navigator.sendBeacon`, which cannot send the Authorization header.
+   * The entries are also queued in the outbox and removed again once the keepalive request
+   * or their original request succeeds; if the page is gone before either answers, the next
+   * replay resends them. The outbox write is asynchronous, so it is best effort on unload.
+   * Returns the number of entries handed over.
+   */
+  flushOnUnload(includeInFlight = true): number {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const pending = this.queue.splice(0);
+    const payloads = pending.map(item => this.serialize(item.entry));
+    pending.forEach(item => item.resolve(null));
+    if (includeInFlight) {
+      payloads.push(...this.inFlight);
+      this.inFlight.clear();
+    }
+
+    const records = payloads.map(payload => this.toOutboxRecord(payload));
+    if (this.options.outbox && records.length > 0) {
+      records.forEach(record => {
+        this.parkedOnUnload.add(record.id);
+        this.keepaliveInFlight.add(record.id);
+      });
+      void this.options.outbox.add(records);
+      this.options.stats?.recordQueuedForRedelivery(records.length);
+    }
+
+    if (this.options.enableBatching) {
+      for (let start = 0; start < records.length; start += this.options.batchSize!) {
+        const chunk = records.slice(start, start + this.options.batchSize!);
+        const logs = chunk.map(record => record.entry);
+        void this.sendKeepalive(this.options.bulkEndpoint!, { logs } as BulkLogRequest)
+          .then(delivered => this.settleKeepalive(chunk, delivered));
+      }
+    } else {
+      records.forEach(record => {
+        void this.sendKeepalive('/logs', record.entry).then(delivered => this.settleKeepalive([record], delivered));
+      });
+    }
+
+    return records.length;
+  }
+
+  /**
+   * Resend entries waiting in the outbox, oldest first, stopping at the first failure.
+   * Resolves with the number of entries delivered. Concurrent calls share one replay.
+   */
+  replay(): Promise<number> {
+    const outbox = this.options.outbox;
+    if (!outbox) {
+      return Promise.resolve(0);
+    }
+
+    if (!this.activeReplay) {
+      this.activeReplay = this.replayOutbox(outbox).finally(() => {
+        this.activeReplay = null;
+      });
+    }
+    return this.activeReplay;
+  }
+
+  /**
+   * Update the bearer token used for subsequent requests
+   */
+  setAccessToken(newToken: string): void {
+    this.options.accessToken = newToken;
+    this.tokens?.setToken(newToken);
+  }
+
+  /**
+   * Number of entries waiting for the next batch flush
+   */
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Get the token managing refreshes, to inspect expiry or force a refresh
+   */
+  getTokenManager(): TokenManager | null {
+    return this.tokens;
+  }
+
+  /**
+   * Add an entry to the batch queue, flushing when the size limit is reached
+   */
+  private enqueue(logEntry: LogEntry): Promise<LogResponse | null> {
+    return new Promise(resolve => {
+      this.queue.push({ entry: logEntry, resolve });
+
+      if (this.queue.length >= this.options.batchSize!) {
+        void this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => {
+          this.flushTimer = null;
+          void this.flush();
+        }, this.options.batchInterval);
+        // Let a Node process exit while entries wait; beforeExit handlers flush them
+        (this.flushTimer as { unref?: () => void }).unref?.();
+      }
+    });
+  }
+
+  /**
+   * Upload queued entries in chunks of at most batchSize and settle their promises
+   */
+  private async sendBatch(pending: PendingLogEntry[]): Promise<void> {
+    for (let start = 0; start < pending.length; start += this.options.batchSize!) {
+      const chunk = pending.slice(start, start + this.options.batchSize!);
+      const payloads = chunk.map(item => this.serialize(item.entry));
+      let result: DeliveryResult<BulkLogResponse>;
+      payloads.forEach(payload => this.inFlight.add(payload));
+      try {
+        result = await this.sendBatchToAPI(payloads);
+      } finally {
+        payloads.forEach(payload => this.inFlight.delete(payload));
+      }
+      this.options.stats?.recordDelivery(chunk.length, result.delivered);
+
+      await this.afterSend(
+        payloads.map(payload => this.toOutboxRecord(payload)),
+        result.delivered
+      );
+
+      const response = result.data;
+      chunk.forEach((item, index) => {
+        const logID = response?.logIDs?.[index];
+        item.resolve(logID ? { logID, message: response!.message } : null);
+      });
+    }
+  }
+
+  /**
+   * Send a single log entry to the API with retry logic
+   */
+  private async sendLogToAPI(payload: SerializedLogEntry, attempts?: number): Promise<DeliveryResult<LogResponse>> {
+    return this.sendWithRetry<LogResponse>('/logs', payload, payload, attempts);
+  }
+
+  /**
+   * Send a batch of log entries to the bulk endpoint, retrying the whole batch on failure
+   */
+  private async sendBatchToAPI(payloads: SerializedLogEntry[], attempts?: number): Promise<DeliveryResult<BulkLogResponse>> {
+    const payload: BulkLogRequest = { logs: payloads };
+    return this.sendWithRetry<BulkLogResponse>(this.options.bulkEndpoint!, payload, payloads, attempts);
+  }
+
+  /**
+   * Fire a request that the browser completes even if the page is being unloaded.
+   * Resolves true only when the API answered with a 2xx; a beacon's outcome is unknown.
+   */
+  private async sendKeepalive(path: string, payload: unknown): Promise<boolean> {
+    const url = `${this.options.apiUrl.replace(/\/$/, '')}${path}`;
+    const body = JSON.stringify(payload);
+    const token = this.tokens ? this.tokens.peekToken() : this.options.accessToken;
+
+    if (typeof fetch === 'function') {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          keepalive: true,
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    }
+    if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+    }
+    return false;
+  }
+
+  /**
+   * Drop entries from the outbox once their keepalive request was accepted; otherwise
+   * leave them for the next replay
+   */
+  private async settleKeepalive(records: OutboxRecord[], delivered: boolean): Promise<void> {
+    records.forEach(record => this.keepaliveInFlight.delete(record.id));
+    if (delivered) {
+      await this.forgetParked(records);
+    }
+  }
+
+  /**
+   * Remove entries parked by flushOnUnload that have since been delivered
+   */
+  private async forgetParked(records: OutboxRecord[]): Promise<void> {
+    const ids = records.map(record => record.id).filter(id => this.parkedOnUnload.delete(id));
+    if (ids.length > 0) {
+      await this.options.outbox?.remove(ids);
+    }
+  }
+
+  /**
+   * Park undelivered entries in the outbox, or use a successful send as a sign that
+   * the API is reachable again and replay what is waiting
+   */
+  private async afterSend(records: OutboxRecord[], delivered: boolean): Promise<void> {
+    const outbox = this.options.outbox;
+    if (!outbox) {
+      return;
+    }
+
+    if (!delivered) {
+      const evicted = await outbox.add(records);
+      this.options.stats?.recordQueuedForRedelivery(records.length);
+      if (this.options.logFailures) {
+        console.warn(`Queued ${records.length} log entries for redelivery` + (evicted ? `, evicted ${evicted}` : ''));
+      }
+      return;
+    }
+
+    // A request that was in flight when flushOnUnload parked its entries may still complete
+    await this.forgetParked(records);
+    if (!this.activeReplay && (await outbox.size()) > 0) {
+      void this.replay();
+    }
+  }
+
+  /**
+   * Drain the outbox in batches. Each record is removed only after the API accepted it.
+   */
+  private async replayOutbox(outbox: LogOutbox): Promise<number> {
+    let delivered = 0;
+
+    for (;;) {
+      const records = (await outbox.peek())
+        .filter(record => !this.keepaliveInFlight.has(record.id))
+        .slice(0, this.options.batchSize);
+      if (records.length === 0) {
+        break;
+      }
+
+      const sentIds: string[] = [];
+      if (this.options.enableBatching) {
+        if ((await this.sendBatchToAPI(records.map(record => record.entry), 1)).delivered) {
+          sentIds.push(...records.map(record => record.id));
+        }
+      } else {
+        for (const record of records) {
+          if (!(await this.sendLogToAPI(record.entry, 1)).delivered) {
+            break;
+          }
+          sentIds.push(record.id);
+        }
+      }
+
+      if (sentIds.length === 0) {
+        break;
+      }
+      await outbox.remove(sentIds);
+      sentIds.forEach(id => this.parkedOnUnload.delete(id));
+      this.options.stats?.recordReplayed(sentIds.length);
+      delivered += sentIds.length;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Wrap a request body for the outbox, keyed by the client-generated ID the server deduplicates on
+   */
+  private toOutboxRecord(payload: SerializedLogEntry): OutboxRecord {
+    return {
+      id: payload.id ?? generateId(),
+      entry: payload,
+      queuedAt: Date.now()
+    };
+  }
+
+  /**
+   * Convert an entry into the request body shape selected by contextMode
+   */
+  private serialize(logEntry: LogEntry): SerializedLogEntry {
+    return this.options.contextMode === 'flatten' ? flattenEntry(logEntry) : serializeEntry(logEntry);
+  }
+
+  /**
+   * Whether a failure points at the log API being unavailable (as opposed to a rejected request)
+   */
+  private isOutage(error: unknown): boolean {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return true; // Network error or timeout
+    }
+    const status = error.response.status;
+    return status >= 500 || status === 429;
+  }
+
+  /**
+   * POST a payload to the API with retry logic, consulting the circuit breaker before every attempt.
+   * Any 2xx response counts as delivered, with or without a body.
+   */
+  private async sendWithRetry<T>(
+    path: string,
+    payload: unknown,
+    original: SerializedLogEntry | SerializedLogEntry[],
+    attempts: number = this.options.retryAttempts!
+  ): Promise<DeliveryResult<T>> {
+    const breaker = this.options.circuitBreaker;
+    let lastError: Error | null = null;
+    // Waits for a refresh in flight, so entries logged meanwhile are held rather than rejected
+    let token = this.tokens ? await this.tokens.getToken() : this.options.accessToken;
+    let refreshed = false;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (breaker && !breaker.tryAcquire()) {
+        if (attempt === 1 && this.options.outbox) {
+          // Circuit already open: fail fast without noise; afterSend parks the entries in the outbox
+          return { delivered: false, data: null };
+        }
+        // Without an outbox the entries are lost, so report them like any other failed delivery
+        lastError = new Error('Log API circuit is open');
+        break;
+      }
+
+      const started = Date.now();
+      try {
+        const response = await this.apiClient.post(path, payload, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        breaker?.recordSuccess();
+        this.options.stats?.recordRequest(Date.now() - started, true, attempt);
+        // axios rejects non-2xx statuses, so this is a delivery; a 204 or empty 200 has no body
+        return { delivered: true, data: response.data ? (response.data as T) : null };
+      } catch (error) {
+        lastError = error as Error;
+        this.options.stats?.recordRequest(Date.now() - started, false, attempt);
+
+        // Only outages count against the breaker; a 4xx means the server is up
+        if (this.isOutage(error)) {
+          breaker?.recordFailure();
+        } else {
+          breaker?.recordSuccess();
+        }
+        
+        if (this.options.logFailures) {
+          console.warn(`Log API attempt ${attempt}/${attempts} failed:`, error);
+        }
+
+        // Don't retry on certain error types
+        if (axios.isAxiosError(error)) {
+          const axiosError = error as AxiosError;
+          if (axiosError.response?.status === 401 || axiosError.response?.status === 403) {
+            if (this.tokens && !refreshed) {
+              refreshed = true;
+              const previous = token;
+              token = await this.tokens.refreshAfterRejection(previous);
+              if (token && token !== previous) {
+                // Retrying with a fresh token does not count as one of the attempts
+                attempt--;
+                continue;
+              }
+            }
+            if (this.options.logFailures) {
+              console.error('Authentication failed for logging API. Check your access token.');
+            }
+            break;
+          }
+        }
+
+        // Wait before retry (except on last attempt)
+        if (attempt < attempts) {
+          await this.delay(this.backoff(attempt, error));
+        }
+      }
+    }
+
+    // Log the failure locally if all retries failed
+    if (this.options.logFailures) {
+      console.error('Failed to send log to API after all retries:', lastError?.message);
+      console.error(Array.isArray(original) ? 'Original log entries:' : 'Original log entry:', original);
+    }
+
+    return { delivered: false, data: null };
+  }
+
+  /**
+   * Utility function for delays
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,13 @@
+// Browser-safe transports. Node-only transports are exported from '../node'.
+export { ConsoleTransport } from './console';
+export type { ConsoleTransportOptions } from './console';
+export { HttpTransport } from './http';
+export type { HttpTransportOptions } from './http';
+export { MemoryTransport, matchesLogQuery } from './memory';
+export type { MemoryTransportOptions, LogQuery } from './memory';
+export { StreamTransport } from './stream';
+export type { StreamTransportOptions, WritableLike } from './stream';
+export { LocalStorageTransport } from './localStorage';
+export type { LocalStorageTransportOptions } from './localStorage';
+export { IndexedDbTransport } from './indexedDb';
+export type { IndexedDbTransportOptions } from './indexedDb';
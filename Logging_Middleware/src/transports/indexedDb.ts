@@ -0,0 +1,136 @@
+import { FormatterOption, LogEntry, LogFormatter, LogLevel, Transport } from '../types';
+import { resolveFormatter } from '../formatters';
+
+/**
+ * Options for the IndexedDB transport
+ */
+export interface IndexedDbTransportOptions {
+  databaseName?: string;
+  storeName?: string;
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+  /** Keep at most this many records, discarding the oldest */
+  maxEntries?: number;
+}
+
+/**
+ * Record stored for each entry
+ */
+interface StoredLogRecord {
+  id?: number;
+  entry: LogEntry;
+  line: string;
+}
+
+/**
+ * Stores entries in IndexedDB, which has far more room than localStorage (browser only)
+ */
+export class IndexedDbTransport implements Transport {
+  readonly name = 'indexedDb';
+  level?: LogLevel;
+  formatter: LogFormatter;
+  private databaseName: string;
+  private storeName: string;
+  private maxEntries: number;
+  private database: Promise<IDBDatabase> | null = null;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: IndexedDbTransportOptions = {}) {
+    this.databaseName = options.databaseName ?? 'logging-middleware';
+    this.storeName = options.storeName ?? 'logs';
+    this.level = options.level;
+    this.formatter = resolveFormatter(options.formatter);
+    this.maxEntries = options.maxEntries ?? 5000;
+  }
+
+  async log(entry: LogEntry): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    const record: StoredLogRecord = { entry, line: this.formatter(entry) };
+    this.lastWrite = this.lastWrite
+      .then(() => this.write(record))
+      .catch(error => console.warn('Failed to persist log entry to IndexedDB:', error));
+
+    return this.lastWrite;
+  }
+
+  /**
+   * Read every stored record, oldest first
+   */
+  async read(): Promise<Array<{ entry: LogEntry; line: string }>> {
+    if (typeof indexedDB === 'undefined') {
+      return [];
+    }
+
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).getAll();
+      request.onsuccess = () => resolve(request.result as StoredLogRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.lastWrite;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+
+    if (this.database) {
+      (await this.database).close();
+      this.database = null;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Add a record and trim the oldest ones beyond maxEntries
+   */
+  private async write(record: StoredLogRecord): Promise<void> {
+    const db = await this.open();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      store.add(record);
+
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - this.maxEntries;
+        if (excess <= 0) {
+          return;
+        }
+
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor && excess > 0) {
+            cursor.delete();
+            excess--;
+            cursor.continue();
+          }
+        };
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
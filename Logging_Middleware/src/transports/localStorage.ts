@@ -0,0 +1,73 @@
+import { FormatterOption, LogEntry, LogFormatter, LogLevel, Transport } from '../types';
+import { resolveFormatter } from '../formatters';
+
+/**
+ * Options for the localStorage transport
+ */
+export interface LocalStorageTransportOptions {
+  /** Storage key holding the JSON array of lines */
+  key?: string;
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+  /** Keep at most this many lines, discarding the oldest */
+  maxEntries?: number;
+}
+
+/**
+ * Keeps the most recent formatted lines in `localStorage` so they survive reloads (browser only)
+ */
+export class LocalStorageTransport implements Transport {
+  readonly name = 'localStorage';
+  level?: LogLevel;
+  formatter: LogFormatter;
+  private key: string;
+  private maxEntries: number;
+
+  constructor(options: LocalStorageTransportOptions = {}) {
+    this.key = options.key ?? 'logging-middleware:logs';
+    this.level = options.level;
+    this.formatter = resolveFormatter(options.formatter);
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  async log(entry: LogEntry): Promise<void> {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      const lines = this.read();
+      lines.push(this.formatter(entry));
+      localStorage.setItem(this.key, JSON.stringify(lines.slice(-this.maxEntries)));
+    } catch (error) {
+      // Quota errors must never break the application that is logging
+      console.warn('Failed to persist log entry to localStorage:', error);
+    }
+  }
+
+  /**
+   * Read the stored lines, oldest first
+   */
+  read(): string[] {
+    if (typeof localStorage === 'undefined') {
+      return [];
+    }
+
+    try {
+      const stored = localStorage.getItem(this.key);
+      return stored ? (JSON.parse(stored) as string[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Remove every stored line
+   */
+  clear(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(this.key);
+    }
+  }
+}
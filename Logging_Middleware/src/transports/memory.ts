@@ -0,0 +1,104 @@
+import { FormatterOption, LogEntry, LogFormatter, LogLevel, LogPackage, LogStack, Transport } from '../types';
+import { resolveFormatter } from '../formatters';
+
+/**
+ * Options for the in-memory transport
+ */
+export interface MemoryTransportOptions {
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+  /** Keep at most this many entries, discarding the oldest */
+  maxEntries?: number;
+}
+
+/**
+ * Criteria for finding recorded entries; every given field must match.
+ * A string message matches when it is contained in the entry's message.
+ */
+export interface LogQuery {
+  level?: LogLevel;
+  package?: LogPackage;
+  stack?: LogStack;
+  message?: string | RegExp;
+  /** Key/value pairs that must all be present in `context.data` */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Check whether an entry satisfies a query
+ */
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.level && entry.level !== query.level) {
+    return false;
+  }
+  if (query.package && entry.package !== query.package) {
+    return false;
+  }
+  if (query.stack && entry.stack !== query.stack) {
+    return false;
+  }
+  if (query.message !== undefined) {
+    const matches = typeof query.message === 'string'
+      ? entry.message.includes(query.message)
+      : query.message.test(entry.message);
+    if (!matches) {
+      return false;
+    }
+  }
+  if (query.data) {
+    const data = entry.context?.data ?? {};
+    return Object.entries(query.data).every(([key, value]) => JSON.stringify(data[key]) === JSON.stringify(value));
+  }
+  return true;
+}
+
+/**
+ * Keeps entries in memory, for inspection in devtools or tests
+ */
+export class MemoryTransport implements Transport {
+  readonly name = 'memory';
+  level?: LogLevel;
+  formatter: LogFormatter;
+  readonly entries: LogEntry[] = [];
+  readonly lines: string[] = [];
+  private maxEntries: number;
+
+  constructor(options: MemoryTransportOptions = {}) {
+    this.level = options.level;
+    this.formatter = resolveFormatter(options.formatter);
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  async log(entry: LogEntry): Promise<void> {
+    this.entries.push(entry);
+    this.lines.push(this.formatter(entry));
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.lines.shift();
+    }
+  }
+
+  /**
+   * Get every recorded entry matching the query, oldest first
+   */
+  filter(query: LogQuery): LogEntry[] {
+    return this.entries.filter(entry => matchesLogQuery(entry, query));
+  }
+
+  /**
+   * Get the first recorded entry matching the query
+   */
+  find(query: LogQuery): LogEntry | undefined {
+    return this.entries.find(entry => matchesLogQuery(entry, query));
+  }
+
+  /**
+   * Discard everything recorded so far
+   */
+  clear(): void {
+    this.entries.length = 0;
+    this.lines.length = 0;
+  }
+}
@@ -0,0 +1,71 @@
+import { FormatterOption, LogEntry, LogFormatter, LogLevel, Transport } from '../types';
+import { resolveFormatter } from '../formatters';
+
+/**
+ * Minimal writable interface, satisfied by Node streams such as `process.stdout`
+ */
+export interface WritableLike {
+  write(chunk: string, callback?: (error?: Error | null) => void): boolean;
+  end?(callback?: () => void): void;
+}
+
+/**
+ * Options for the stream transport
+ */
+export interface StreamTransportOptions {
+  stream: WritableLike;
+  level?: LogLevel;
+  /** Built-in formatter name or custom formatter (default 'text') */
+  formatter?: FormatterOption;
+  /** Call `end()` on the stream when the transport is closed */
+  endOnClose?: boolean;
+}
+
+/**
+ * Writes one formatted line per entry to a writable stream
+ */
+export class StreamTransport implements Transport {
+  readonly name: string = 'stream';
+  level?: LogLevel;
+  formatter: LogFormatter;
+  protected stream: WritableLike;
+  private endOnClose: boolean;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: StreamTransportOptions) {
+    this.stream = options.stream;
+    this.level = options.level;
+    this.formatter = resolveFormatter(options.formatter);
+    this.endOnClose = options.endOnClose ?? false;
+  }
+
+  async log(entry: LogEntry): Promise<void> {
+    const line = `${this.formatter(entry)}\n`;
+
+    this.lastWrite = new Promise(resolve => {
+      this.stream.write(line, error => {
+        if (error) {
+          console.error('Failed to write log entry to stream:', error.message);
+        }
+        resolve();
+      });
+    });
+
+    return this.lastWrite;
+  }
+
+  /**
+   * Wait until the most recent write has been handed to the stream
+   */
+  async flush(): Promise<void> {
+    await this.lastWrite;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+
+    if (this.endOnClose && this.stream.end) {
+      await new Promise<void>(resolve => this.stream.end!(resolve));
+    }
+  }
+}
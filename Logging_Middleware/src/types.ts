@@ -1,3 +1,12 @@
+import type { BackoffStrategy } from './backoff';
+import type { CircuitBreaker } from './circuitBreaker';
+import type { RedactionOptions } from './redaction';
+import type { SamplingOptions } from './sampling';
+import type { ValidationOptions } from './validation';
+import type { TokenProvider } from './auth';
+import type { LoggerStats, LogStatsCollector } from './stats';
+import type { Span, TimerOptions } from './timing';
+
 /**
  * Log levels supported by the logging middleware
  */
@@ -24,24 +33,121 @@ export type LogPackage =
  * Configuration for the logging middleware
  */
 export interface LoggerConfig {
-  apiUrl: string;
-  accessToken: string;
+  /** Base URL of the log API; required unless `transports` is given */
+  apiUrl?: string;
+  /** Static bearer token, or the first token to use with `tokenProvider` */
+  accessToken?: string;
+  /** Supplies fresh tokens before the JWT expires and after a 401/403 */
+  tokenProvider?: TokenProvider;
   defaultStack: LogStack;
+  /** Correlation ID attached to every entry; generated once per logger (one per browser session or process) */
+  correlationId?: string;
+  /** Minimum level for every entry; defaults to all levels */
+  minLevel?: LogLevel;
+  /** Per-package thresholds, taking precedence over `stackLevels` and `minLevel` */
+  packageLevels?: Partial<Record<LogPackage, LogLevel>>;
+  /** Per-stack thresholds, taking precedence over `minLevel` */
+  stackLevels?: Partial<Record<LogStack, LogLevel>>;
+  /** Redaction stage applied before any transport sees an entry; disabled when omitted */
+  redaction?: RedactionOptions;
+  /** Sampling and rate limiting applied after level filtering; error and fatal are exempt by default */
+  sampling?: SamplingOptions;
+  /** Runtime checks of stack, level, package and message before anything else; on by default in 'correct' mode, pass false to disable */
+  validation?: ValidationOptions | false;
+  /** Collector behind getStats(); share it with HTTP transports built outside the logger to count their requests */
+  stats?: LogStatsCollector;
+  /** Log a summary of getStats() at info level on the 'utils' package every this many milliseconds */
+  statsReportInterval?: number;
+  /** Transports receiving every entry; when omitted, HTTP and console transports are built from the settings below */
+  transports?: Transport[];
   enableConsoleLog?: boolean;
   retryAttempts?: number;
   retryDelay?: number;
+  /** Delay between attempts; defaults to linear backoff on retryDelay */
+  backoff?: BackoffStrategy;
+  /** Breaker shared by the logger's HTTP transports; exposed through `getCircuitBreaker()` */
+  circuitBreaker?: CircuitBreaker;
+  /** Queue entries in memory and ship them to the bulk endpoint instead of one request per entry */
+  enableBatching?: boolean;
+  /** Flush the queue once it holds this many entries */
+  batchSize?: number;
+  /** Flush the queue this many milliseconds after the first entry was queued */
+  batchInterval?: number;
+  /** Path of the bulk upload endpoint, relative to apiUrl */
+  bulkEndpoint?: string;
+  /** How context is sent to the log API (default 'structured') */
+  contextMode?: ContextMode;
 }
 
+/**
+ * Target of a runtime level change: a single package, a single stack, or everything when omitted
+ */
+export type LevelScope = { package: LogPackage } | { stack: LogStack };
+
 /**
  * Log entry structure matching the API specification
  */
 export interface LogEntry {
+  /** Client-generated ID, letting the server drop entries that are delivered twice */
+  id?: string;
   stack: LogStack;
   level: LogLevel;
   package: LogPackage;
   message: string;
+  /** Structured details; transports decide how to serialize it */
+  context?: LogContext;
 }
 
+/**
+ * Structured details attached to a log entry
+ */
+export interface LogContext {
+  /** Key/value metadata */
+  data?: Record<string, unknown>;
+  /** Error that caused the entry; serialized with name, message and stack */
+  error?: Error;
+  /** When the event happened; the logger fills in the time of the call */
+  timestamp?: Date;
+  /** Ties together entries from one session or request; the logger fills in its own */
+  correlationId?: string;
+}
+
+/**
+ * Fields bound to a child logger and added to the `data` of every entry it emits.
+ * A `correlationId` binding replaces the parent's correlation ID instead.
+ */
+export type LogBindings = Record<string, unknown> & { correlationId?: string };
+
+/**
+ * JSON-safe form of an error
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/**
+ * JSON-safe form of a log entry, as sent to servers that accept structured context
+ */
+export interface SerializedLogEntry {
+  id?: string;
+  stack: LogStack;
+  level: LogLevel;
+  package: LogPackage;
+  message: string;
+  timestamp?: string;
+  correlationId?: string;
+  data?: Record<string, unknown>;
+  error?: SerializedError;
+}
+
+/**
+ * How context is sent to the log API: as structured fields, or flattened into `message`
+ * for servers (such as the evaluation API) that only accept the four base fields
+ */
+export type ContextMode = 'structured' | 'flatten';
+
 /**
  * API response structure
  */
@@ -50,14 +156,75 @@ export interface LogResponse {
   message: string;
 }
 
+/**
+ * Bulk upload request body
+ */
+export interface BulkLogRequest {
+  logs: SerializedLogEntry[];
+}
+
+/**
+ * Bulk upload response structure, with one log ID per submitted entry
+ */
+export interface BulkLogResponse {
+  logIDs: string[];
+  message: string;
+}
+
+/**
+ * Turns a log entry into a single line of output
+ */
+export type LogFormatter = (entry: LogEntry) => string;
+
+/**
+ * Names of the built-in formatters
+ */
+export type FormatterName = 'text' | 'json' | 'logfmt' | 'ecs' | 'pretty';
+
+/**
+ * A built-in formatter by name, or a custom formatter function
+ */
+export type FormatterOption = FormatterName | LogFormatter;
+
+/**
+ * Destination for log entries. A logger fans every entry out to all of its transports.
+ */
+export interface Transport {
+  /** Identifies the transport in diagnostics and in `removeTransport` */
+  readonly name: string;
+  /** Minimum level this transport receives; defaults to every level */
+  level?: LogLevel;
+  /** Formatter used by transports that write text */
+  formatter?: LogFormatter;
+  log(entry: LogEntry): Promise<LogResponse | null | void>;
+  /** Deliver anything the transport is still holding */
+  flush?(): Promise<void>;
+  /** Flush and release underlying resources */
+  close?(): Promise<void>;
+}
+
 /**
  * Logger instance interface
  */
 export interface Logger {
-  log(stack: LogStack, level: LogLevel, packageName: LogPackage, message: string): Promise<LogResponse | null>;
-  debug(packageName: LogPackage, message: string): Promise<LogResponse | null>;
-  info(packageName: LogPackage, message: string): Promise<LogResponse | null>;
-  warn(packageName: LogPackage, message: string): Promise<LogResponse | null>;
-  error(packageName: LogPackage, message: string): Promise<LogResponse | null>;
-  fatal(packageName: LogPackage, message: string): Promise<LogResponse | null>;
+  log(stack: LogStack, level: LogLevel, packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  debug(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  info(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  warn(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  error(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  fatal(packageName: LogPackage, message: string, context?: LogContext): Promise<LogResponse | null>;
+  setLevel(level: LogLevel, scope?: LevelScope): void;
+  child(bindings: LogBindings): Logger;
+  /** Start a timer that logs its duration when ended, e.g. `const span = logger.startTimer('load'); ...; span.end()` */
+  startTimer(name: string, options?: TimerOptions): Span;
+  /** Time an operation, logging duration and outcome; errors are logged and rethrown */
+  time<T>(name: string, operation: (span: Span) => T | Promise<T>, options?: TimerOptions): Promise<T>;
+  /** Counters of log calls, deliveries and log API latency */
+  getStats(): LoggerStats;
+  /** Breaker guarding the log API, to show a "logging degraded" state; undefined when none is configured */
+  getCircuitBreaker(): CircuitBreaker | undefined;
+  /** Wait until every entry logged so far has been delivered or given up on */
+  flush(): Promise<void>;
+  /** Flush, release transports and stop accepting new entries */
+  close(): Promise<void>;
 } 
\ No newline at end of file
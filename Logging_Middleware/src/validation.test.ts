@@ -0,0 +1,94 @@
+import { createTestLogger } from './testing/testLogger';
+import { createValidator, isPackageAllowed } from './validation';
+
+const call = (stack: unknown, level: unknown, packageName: unknown, message: unknown) =>
+  ({ stack, level, package: packageName, message });
+
+describe('createValidator', () => {
+  const validate = createValidator();
+
+  it('accepts a valid call unchanged', () => {
+    expect(validate(call('frontend', 'info', 'page', 'Loaded'), 'frontend')).toEqual({
+      call: { stack: 'frontend', level: 'info', package: 'page', message: 'Loaded' },
+      issues: []
+    });
+  });
+
+  it('normalizes case, whitespace and level aliases without reporting issues', () => {
+    expect(validate(call(' Backend', 'WARNING', 'DB', 'Slow'), 'frontend')).toEqual({
+      call: { stack: 'backend', level: 'warn', package: 'db', message: 'Slow' },
+      issues: []
+    });
+  });
+
+  it('swaps arguments given in the wrong order', () => {
+    const result = validate(call('info', 'frontend', 'Loaded', 'page'), 'frontend');
+
+    expect(result.call).toEqual({ stack: 'frontend', level: 'info', package: 'page', message: 'Loaded' });
+    expect(result.issues).toHaveLength(2);
+  });
+
+  it('falls back to the default stack, info level and utils package', () => {
+    const result = validate(call('mobile', 'verbose', 'widgets', 'Hi'), 'backend');
+
+    expect(result.call).toEqual({ stack: 'backend', level: 'info', package: 'utils', message: 'Hi' });
+    expect(result.issues).toEqual(['unknown stack "mobile"', 'unknown level "verbose"', 'unknown package "widgets"']);
+  });
+
+  it('replaces a package that belongs to the other stack', () => {
+    const result = validate(call('frontend', 'info', 'db', 'Query'), 'frontend');
+
+    expect(result.call?.package).toBe('utils');
+    expect(isPackageAllowed('db', 'frontend')).toBe(false);
+    expect(isPackageAllowed('auth', 'frontend')).toBe(true);
+  });
+
+  it('fixes up empty, non-string and overlong messages', () => {
+    const short = createValidator({ maxMessageLength: 5 });
+
+    expect(validate(call('frontend', 'info', 'page', '  '), 'frontend').call?.message).toBe('(empty message)');
+    expect(validate(call('frontend', 'info', 'page', new Error('Boom')), 'frontend').call?.message).toBe('Boom');
+    expect(short(call('frontend', 'info', 'page', 'Too long'), 'frontend').call?.message).toBe('Too …');
+  });
+
+  it('rejects problem calls in reject mode and skips checks when off', () => {
+    const invalid = call('frontend', 'info', 'db', 'Query');
+
+    expect(createValidator({ mode: 'reject' })(invalid, 'frontend')).toEqual({
+      issues: ['package "db" cannot be logged from the frontend stack']
+    });
+    expect(createValidator({ mode: 'off' })(invalid, 'frontend').call).toEqual(invalid);
+  });
+});
+
+describe('logger validation', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => warn.mockRestore());
+
+  it('logs corrected calls and warns once per distinct problem', async () => {
+    const logger = createTestLogger();
+
+    await logger.log('frontend', 'info', 'db' as never, 'First');
+    await logger.log('frontend', 'info', 'db' as never, 'Second');
+
+    logger.expectLogged({ package: 'utils', message: 'First' });
+    logger.expectLogged({ package: 'utils', message: 'Second' });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Invalid log call corrected: package "db" cannot be logged from the frontend stack');
+  });
+
+  it('drops rejected calls and counts them', async () => {
+    const logger = createTestLogger({ validation: { mode: 'reject', warn: false } });
+
+    await logger.info('db' as never, 'Dropped');
+
+    expect(logger.entries).toHaveLength(0);
+    expect(logger.getStats().byOutcome.rejected).toBe(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { LogLevel, LogPackage, LogStack } from './types';
+import { isLogLevel } from './levels';
+
+/**
+ * What to do with a call whose stack, level, package or message the log API would refuse:
+ * fix it up and log anyway, drop it, or skip validation entirely
+ */
+export type ValidationMode = 'correct' | 'reject' | 'off';
+
+/**
+ * Options for runtime validation of log calls
+ */
+export interface ValidationOptions {
+  /** Default 'correct' */
+  mode?: ValidationMode;
+  /** Messages longer than this are truncated, or rejected in 'reject' mode (default 1000) */
+  maxMessageLength?: number;
+  /** Package used in 'correct' mode when the given one is unknown or wrong for the stack (default 'utils') */
+  fallbackPackage?: LogPackage;
+  /** Print a console warning the first time each distinct problem is seen (default true) */
+  warn?: boolean;
+}
+
+/**
+ * Fields of a log call as received at runtime, possibly from untyped JavaScript
+ */
+export interface LogCall {
+  stack: unknown;
+  level: unknown;
+  package: unknown;
+  message: unknown;
+}
+
+/**
+ * Outcome of validating a log call. `call` is absent when the call was rejected.
+ */
+export interface ValidationResult {
+  call?: {
+    stack: LogStack;
+    level: LogLevel;
+    package: LogPackage;
+    message: string;
+  };
+  /** Human-readable description of every problem found */
+  issues: string[];
+}
+
+/**
+ * Validates one log call
+ */
+export type Validator = (call: LogCall, defaultStack: LogStack) => ValidationResult;
+
+/**
+ * Stacks accepted by the log API
+ */
+export const LOG_STACKS: readonly LogStack[] = ['backend', 'frontend'];
+
+/**
+ * Stacks each package may be logged from; shared packages are valid on both
+ */
+export const PACKAGE_STACKS: Record<LogPackage, readonly LogStack[]> = {
+  cache: ['backend'],
+  controller: ['backend'],
+  cron_job: ['backend'],
+  db: ['backend'],
+  domain: ['backend'],
+  handler: ['backend'],
+  repository: ['backend'],
+  route: ['backend'],
+  service: ['backend'],
+  api: ['frontend'],
+  component: ['frontend'],
+  hook: ['frontend'],
+  page: ['frontend'],
+  state: ['frontend'],
+  style: ['frontend'],
+  auth: LOG_STACKS,
+  config: LOG_STACKS,
+  middleware: LOG_STACKS,
+  utils: LOG_STACKS
+};
+
+/**
+ * Check whether a value is one of the supported stacks
+ */
+export function isLogStack(value: unknown): value is LogStack {
+  return typeof value === 'string' && (LOG_STACKS as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a value is one of the supported packages
+ */
+export function isLogPackage(value: unknown): value is LogPackage {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PACKAGE_STACKS, value);
+}
+
+/**
+ * Check whether a package may be logged from a stack, e.g. `'db'` only from `'backend'`
+ */
+export function isPackageAllowed(packageName: LogPackage, stack: LogStack): boolean {
+  return PACKAGE_STACKS[packageName].includes(stack);
+}
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  warning: 'warn',
+  err: 'error',
+  critical: 'fatal'
+};
+
+/**
+ * Normalize case and whitespace, so `'INFO '` is accepted as `'info'`
+ */
+function normalize(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+/**
+ * Create a validator for log calls. Besides unknown values it detects the common
+ * mistake of swapping arguments, such as `info(message, 'page')` or `log(level, stack, ...)`.
+ */
+export function createValidator(options: ValidationOptions = {}): Validator {
+  const mode = options.mode ?? 'correct';
+  const maxMessageLength = options.maxMessageLength ?? 1000;
+  const fallbackPackage = options.fallbackPackage ?? 'utils';
+
+  return (input, defaultStack) => {
+    const issues: string[] = [];
+    let { stack, level, package: packageName, message } = input;
+
+    if (mode === 'off') {
+      return { call: input as ValidationResult['call'], issues };
+    }
+
+    if (!isLogStack(stack) && isLogLevel(normalize(stack)) && isLogStack(normalize(level))) {
+      issues.push(`stack and level look swapped (got stack "${String(stack)}", level "${String(level)}")`);
+      [stack, level] = [level, stack];
+    }
+    if (!isLogPackage(packageName) && isLogPackage(normalize(message))) {
+      issues.push(`package and message look swapped (got package "${String(packageName)}", message "${String(message)}")`);
+      [packageName, message] = [message, packageName];
+    }
+
+    if (!isLogStack(stack)) {
+      const normalized = normalize(stack);
+      if (isLogStack(normalized)) {
+        stack = normalized;
+      } else {
+        issues.push(`unknown stack "${String(stack)}"`);
+        stack = defaultStack;
+      }
+    }
+
+    if (!isLogLevel(level)) {
+      const normalized = normalize(level);
+      const alias = typeof normalized === 'string' ? LEVEL_ALIASES[normalized] : undefined;
+      if (isLogLevel(normalized)) {
+        level = normalized;
+      } else if (alias) {
+        level = alias;
+      } else {
+        issues.push(`unknown level "${String(level)}"`);
+        level = 'info';
+      }
+    }
+
+    if (!isLogPackage(packageName)) {
+      const normalized = normalize(packageName);
+      if (isLogPackage(normalized)) {
+        packageName = normalized;
+      } else {
+        issues.push(`unknown package "${String(packageName)}"`);
+        packageName = fallbackPackage;
+      }
+    }
+
+    if (!isPackageAllowed(packageName as LogPackage, stack as LogStack)) {
+      issues.push(`package "${String(packageName)}" cannot be logged from the ${String(stack)} stack`);
+      packageName = fallbackPackage;
+    }
+
+    if (typeof message !== 'string') {
+      issues.push(`message must be a string (got ${message === null ? 'null' : typeof message})`);
+      message = message instanceof Error ? message.message : String(message);
+    }
+    if ((message as string).trim() === '') {
+      issues.push('message is empty');
+      message = '(empty message)';
+    }
+    if ((message as string).length > maxMessageLength) {
+      issues.push(`message is ${(message as string).length} characters, over the ${maxMessageLength} character limit`);
+      message = `${(message as string).slice(0, maxMessageLength - 1)}…`;
+    }
+
+    if (mode === 'reject' && issues.length > 0) {
+      return { issues };
+    }
+
+    return {
+      call: {
+        stack: stack as LogStack,
+        level: level as LogLevel,
+        package: packageName as LogPackage,
+        message: message as string
+      },
+      issues
+    };
+  };
+}